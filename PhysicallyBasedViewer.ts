@@ -1,4 +1,4 @@
-import { ACESFilmicToneMapping, AgXToneMapping, AmbientLight, ArrayCamera, AxesHelper, Camera, CineonToneMapping, Color, ColorManagement, DirectionalLight, DirectionalLightHelper, GridHelper, Layers, LinearToneMapping, Matrix4, NoToneMapping, Object3D, PCFSoftShadowMap, PerspectiveCamera, PMREMGenerator, REVISION, Scene, Texture, ToneMapping, Vector3, WebGLRenderer, WebGLRendererParameters, WebGLRenderTarget } from "three";
+import { ACESFilmicToneMapping, AgXToneMapping, AmbientLight, ArrayCamera, AxesHelper, Camera, CineonToneMapping, Color, ColorManagement, DataTexture, DirectionalLight, DirectionalLightHelper, EventDispatcher, GridHelper, Layers, LinearToneMapping, Matrix4, NoToneMapping, Object3D, OrthographicCamera, PCFSoftShadowMap, PerspectiveCamera, PMREMGenerator, REVISION, Scene, ShaderMaterial, Texture, ToneMapping, Vector3, Vector4, WebGLRenderer, WebGLRendererParameters, WebGLRenderTarget } from "three";
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
 import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
 import { HDRLoader } from "three/examples/jsm/loaders/HDRLoader.js";
@@ -7,10 +7,15 @@ import { DevUI } from "./dev/DevUI.js";
 import { EnvironmentProbes } from "./dev/EnvironmentProbes.js";
 import { TextureVisualizer } from "./dev/TextureVisualizer.js";
 import InteractionManager from "./interaction/InteractionManager.js";
-import { ThreeInteraction } from "./interaction/ThreeInteraction.js";
+import { ThreeInteraction, ViewportRect } from "./interaction/ThreeInteraction.js";
+import { GpuPicker } from "./interaction/GpuPicker.js";
 import { Layer } from "./rendering/Layer.js";
+import { PostProcessingStack } from "./rendering/PostProcessingStack.js";
+import { TAAEffect } from "./rendering/effects/TAAEffect.js";
+import { AccumulationEffect } from "./rendering/effects/AccumulationEffect.js";
 import { Rendering } from "./rendering/Rendering.js";
 import RenderTargetStore from "./rendering/RenderTargetStore.js";
+import { TransmissionRenderer } from "./rendering/TransmissionRenderer.js";
 import { ObjectUtils } from "./utils/ObjectUtils.js";
 // three js stats
 import { EventSignal } from "@haxiomic/event-signal";
@@ -52,6 +57,83 @@ export type PhysicallyBasedViewerOptions<Controls extends {
 	changeBackgroundWithEnvironment?: boolean,
 	/** when true, camera position is saved to local storage and restored next load */
 	cacheCameraTransform?: boolean,
+	/**
+	 * Render through a `PostProcessingStack`. Pass `true` to create one with the default effects. Sets `customRender`
+	 * @default false
+	 */
+	postProcessing?: boolean | PostProcessingStack,
+	/**
+	 * Temporal anti-aliasing, adds a `TAAEffect` at the start of the post-processing stack (creating one if needed) and disables FXAA, see `viewer.taa`
+	 * @default false
+	 */
+	taa?: boolean,
+	/**
+	 * Accumulate jittered samples while the camera and scene are still, pass a number to set the maximum sample count. Adds an `AccumulationEffect` to the post-processing stack (creating one if needed), see `viewer.accumulation`
+	 * @default false
+	 */
+	accumulation?: boolean | number,
+	/**
+	 * Render a mip-blurred background each frame for `CustomPhysicalMaterial.transmissionBackground`, see `viewer.transmission`
+	 * @default false
+	 */
+	transmission?: boolean,
+	/**
+	 * Pick interactive objects by rendering ids under the pointer instead of raycasting, see `GpuPicker`
+	 * @default false
+	 */
+	gpuPicking?: boolean,
+	/**
+	 * Only render when something changed, see `viewer.renderOnDemand`
+	 * @default false
+	 */
+	renderOnDemand?: boolean,
+}
+
+export type CustomRenderer = {
+	/** `frameTime` is the viewer's frame time, use it rather than the wall clock so offline rendering stays deterministic */
+	render: (renderer: WebGLRenderer, renderPassOptions: Rendering.RenderPassOptions, frameTime?: { t_s: number, dt_s: number }) => void,
+	/** True while the output keeps changing without the scene changing, e.g. `PostProcessingStack.needsFrame`. Checked after each frame when rendering on demand */
+	readonly needsFrame?: boolean,
+}
+
+export type ViewportControls = {
+	enabled?: boolean,
+	update?: (dt_s: number) => void,
+	dispose?: () => void,
+}
+
+export type ViewportOptions = {
+	/** Region of the canvas in fractions, origin top-left. Can be changed after adding */
+	rect: ViewportRect,
+	camera: Camera,
+	/** @default viewer.renderLayers */
+	layers?: Layers,
+	/** @default viewer.clearColor */
+	clearColor?: Rendering.RenderPassOptions['clearColor'],
+	/** @default true */
+	clearDepth?: boolean,
+	/**
+	 * Controls updated every frame. A function receives an event target that only passes on input starting inside the viewport, e.g. `(camera, domElement) => new OrbitControls(camera, domElement)`, and its controls are disposed with the viewport
+	 */
+	controls?: ViewportControls | ((camera: Camera, domElement: HTMLElement) => ViewportControls),
+	/**
+	 * Replaces the viewer's render for this viewport. Post-processing keeps per-view history (TAA, motion vectors), so give each viewport its own stack rather than sharing `customRender`
+	 * @default viewer.customRender
+	 */
+	render?: CustomRenderer | CustomRenderer['render'],
+}
+
+export type Viewport = {
+	rect: ViewportRect,
+	camera: Camera,
+	layers: Layers | undefined,
+	clearColor: Rendering.RenderPassOptions['clearColor'] | undefined,
+	clearDepth: boolean,
+	controls: ViewportControls | null,
+	/** `undefined` renders with the viewer's `customRender` */
+	render: CustomRenderer | CustomRenderer['render'] | undefined,
+	/** Routes pointers inside `rect` to objects seen by `camera` */
+	readonly interaction: ThreeInteraction,
 }
 
 /**
@@ -99,6 +181,15 @@ export class PhysicallyBasedViewer<
 		dispose: new EventSignal<void>(),
 		canvasResized: new EventSignal<{ width: number, height: number }>(),
 		environmentChanged: new EventSignal<{ scene: Scene, environment: Texture | null }>(),
+		/** The WebGL context was lost (e.g. GPU process reset), the animation loop is paused until it's restored */
+		contextLost: new EventSignal<void>(),
+		/**
+		 * Dispatched after the viewer has reallocated its render targets and reloaded the environment. GPU state owned elsewhere must be restored here,
+		 * e.g. `fluid.restoreContext(lastSnapshot)`, `dualRenderTarget.reallocate()`, `ringBufferTexture.reupload()`
+		 */
+		contextRestored: new EventSignal<{ renderer: WebGLRenderer }>(),
+		/** Dispatched by `invalidate()`, lets whoever drives a shared renderer wake its loop (see `SharedCanvas`) */
+		frameRequested: new EventSignal<void>(),
 	}
 
 	readonly directionalLight: DirectionalLight;
@@ -121,8 +212,14 @@ export class PhysicallyBasedViewer<
 
 	protected fallbackAmbientLight = new AmbientLight(0xffffff, 2.0);
 
+	/** Shared by the default post-processing stack and transmission, advanced once per `animationFrame()` */
 	protected renderTargetStore = new RenderTargetStore();
 
+	readonly postProcessing: PostProcessingStack | null = null;
+	readonly taa: TAAEffect | null = null;
+	readonly accumulation: AccumulationEffect | null = null;
+	readonly transmission: TransmissionRenderer | null = null;
+
 	dev: {
 		root: Object3D,
 		textureVisualizer: TextureVisualizer,
@@ -168,6 +265,7 @@ export class PhysicallyBasedViewer<
 			Console.log(`${this.logTag}: <b>three v${REVISION}</>, <cyan>dev mode active<//>`);
 			Console.log(`Capabilities`, renderer.capabilities);
 			this.renderLayers.enable(Layer.Developer);
+			Rendering.validateStateStack = true;
 		}
 
 		let context = renderer.getContext();
@@ -180,6 +278,33 @@ export class PhysicallyBasedViewer<
 		renderer.toneMappingExposure = this.toneMappingExposure;
 		renderer.toneMapping = this.toneMapping;
 
+		if (options.postProcessing || options.taa || options.accumulation) {
+			this.postProcessing = options.postProcessing instanceof PostProcessingStack
+				? options.postProcessing
+				: new PostProcessingStack({ renderTargetStore: this.renderTargetStore });
+			this.customRender = this.postProcessing;
+		}
+
+		if (options.taa) {
+			this.taa = this.postProcessing!.addEffect(new TAAEffect(), 0);
+			this.postProcessing!.fxaa.enabled = false;
+		}
+
+		if (options.accumulation) {
+			this.accumulation = this.postProcessing!.addEffect(
+				new AccumulationEffect(typeof options.accumulation === 'number' ? options.accumulation : undefined),
+				0
+			);
+			// jitter would fight with accumulation
+			if (this.taa != null) {
+				this.taa.jitterScale = 0;
+			}
+		}
+
+		if (options.transmission) {
+			this.transmission = new TransmissionRenderer(this.renderTargetStore);
+		}
+
 		const interactionManager = this.interactionManager = options.interactionManager ?? new InteractionManager(canvas, {
 			autoCapturePointer: true,
 			disableDefaultBehavior: true,
@@ -187,6 +312,9 @@ export class PhysicallyBasedViewer<
 
 		// three.js interaction system
 		this.threeInteraction = new ThreeInteraction(interactionManager, this.scene, this.camera);
+		if (options.gpuPicking) {
+			this.threeInteraction.gpuPicker = new GpuPicker(this.renderer);
+		}
 
 		this.gltfLoader = new GLTFLoader();
 
@@ -208,6 +336,20 @@ export class PhysicallyBasedViewer<
 
 		interactionManager.attachEventListeners();
 
+		// context loss
+		renderer.domElement.addEventListener('webglcontextlost', this.onContextLost);
+		renderer.domElement.addEventListener('webglcontextrestored', this.onContextRestored);
+
+		// render on demand triggers
+		this._removeControlsChangeListener = listenForControlsChange(this.controls, this.requestFrame);
+		this.threeInteraction.events.objectEvent.addListener(this.requestFrame);
+		this.events.environmentChanged.addListener(this.requestFrame);
+		if (typeof ResizeObserver !== 'undefined') {
+			this._resizeObserver = new ResizeObserver(this.requestFrame);
+			this._resizeObserver.observe(canvas);
+		}
+		this._renderOnDemand = options.renderOnDemand ?? false;
+
 		this.camera.position.z = 2;
 
 		// directional light for sun-lit geometry shading
@@ -342,6 +484,8 @@ export class PhysicallyBasedViewer<
 			});
 			renderingFolder.add(this, 'toneMappingExposure', 0, 2);
 
+			this.postProcessing?.addDevUI();
+
 			this.dev = {
 				root: new Object3D(),
 				textureVisualizer: new TextureVisualizer(),
@@ -444,23 +588,219 @@ export class PhysicallyBasedViewer<
 		// instances share one renderer and only one entity should own
 		// `setAnimationLoop`.
 		if (this.ownsRenderer) {
-			renderer.setAnimationLoop((time, frame) => this.animationFrame());
+			this.startAnimationLoop();
 		}
 	}
 
 	private _lastRenderTime_ms: number = NaN;
+	private _animationLoopRunning = false;
+	/** The loop is running but has stopped requesting display frames until `invalidate()` */
+	private _animationLoopIdle = false;
+	private _renderOnDemand = false;
+	private _requestedFrames = 0;
+	private _renderLeases = new Set<{ release: () => void }>();
+	private _renderSuspensions = new Set<{ resume: () => void }>();
+	private _resumeAfterSuspension = false;
+	private _removeControlsChangeListener: () => void;
+	private _resizeObserver: ResizeObserver | null = null;
+
+	get isAnimationLoopRunning() {
+		return this._animationLoopRunning;
+	}
+
+	/**
+	 * Render every display frame via `renderer.setAnimationLoop`, started automatically when the viewer owns its renderer
+	 */
+	startAnimationLoop() {
+		this._lastRenderTime_ms = NaN;
+		this._animationLoopIdle = false;
+		this.renderer.setAnimationLoop(this.onAnimationLoop);
+		this._animationLoopRunning = true;
+	}
+
+	stopAnimationLoop() {
+		this.renderer.setAnimationLoop(null);
+		this._animationLoopRunning = false;
+		this._animationLoopIdle = false;
+	}
+
+	/**
+	 * When true the animation loop only renders frames requested with `invalidate()` or while a `keepRendering()` lease is held, and otherwise stops requesting display frames.
+	 *
+	 * Frames are requested automatically on controls `change` events, `ThreeInteraction` object events, canvas resize and environment changes, and until accumulation, TAA and effects reporting `needsFrame` have settled.
+	 * Anything else that changes the image (scene edits, materials, animations) must call `invalidate()` or hold a lease.
+	 * `frameUpdate` and `beforeFrameRender` are dispatched for every rendered frame as before; time keeps running while idle, but the first frame after idling gets a nominal `dt_s`
+	 */
+	get renderOnDemand() {
+		return this._renderOnDemand;
+	}
+
+	set renderOnDemand(value: boolean) {
+		this._renderOnDemand = value;
+		this.invalidate();
+	}
+
+	/**
+	 * Request `frames` more frames when rendering on demand. Does nothing otherwise
+	 *
+	 * With TAA enabled at least `taa.convergenceFrames` are requested so the jittered history settles before the loop idles
+	 */
+	invalidate(frames: number = 1) {
+		if (this.taa?.enabled) {
+			frames = Math.max(frames, this.taa.convergenceFrames);
+		}
+		this._requestedFrames = Math.max(this._requestedFrames, frames);
+		if (this._animationLoopRunning && this._animationLoopIdle) {
+			this._animationLoopIdle = false;
+			this.renderer.setAnimationLoop(this.onAnimationLoop);
+		}
+		this.events.frameRequested.dispatch();
+	}
+
+	/**
+	 * False when rendering on demand with no requested frames or `keepRendering()` leases, for loops that drive `animationFrame()` themselves
+	 */
+	get needsFrame() {
+		return !this._renderOnDemand || this._requestedFrames > 0 || this._renderLeases.size > 0;
+	}
+
+	/**
+	 * Count one requested frame as rendered, call before `animationFrame()` when driving the viewer from another loop
+	 */
+	consumeFrameRequest() {
+		// consumed before rendering so invalidations during the frame (controls damping) request the next one
+		this._requestedFrames = Math.max(this._requestedFrames - 1, 0);
+	}
+
+	/**
+	 * Keep rendering every frame until the returned lease is released, for animations and simulations when rendering on demand
+	 *
+	 * @example
+	 * ```typescript
+	 * const lease = viewer.keepRendering();
+	 * await playAnimation();
+	 * lease.release();
+	 * ```
+	 */
+	keepRendering(): { release: () => void } {
+		const lease = {
+			release: () => {
+				this._renderLeases.delete(lease);
+			}
+		};
+		this._renderLeases.add(lease);
+		this.invalidate();
+		return lease;
+	}
+
+	/**
+	 * Pause the viewer's own rendering while something else drives `animationFrame()`, e.g. `FrameCapture`. Rendering resumes once every suspension is resumed
+	 *
+	 * Only the animation loop the viewer runs is stopped, a shared renderer's loop is left alone and `SharedCanvas` skips suspended viewers
+	 */
+	suspendRendering(): { resume: () => void } {
+		if (this._renderSuspensions.size === 0) {
+			this._resumeAfterSuspension = this._animationLoopRunning;
+			if (this._animationLoopRunning) {
+				this.stopAnimationLoop();
+			}
+		}
+		const suspension = {
+			resume: () => {
+				if (!this._renderSuspensions.delete(suspension) || this._renderSuspensions.size > 0) return;
+				if (this._resumeAfterSuspension) {
+					this._resumeAfterSuspension = false;
+					this.startAnimationLoop();
+				}
+				this.invalidate();
+			}
+		};
+		this._renderSuspensions.add(suspension);
+		return suspension;
+	}
+
+	get isRenderingSuspended() {
+		return this._renderSuspensions.size > 0;
+	}
+
+	/** Listener for automatic invalidation, ignores event payloads */
+	protected requestFrame = () => this.invalidate();
+
+	get isContextLost() {
+		return this.renderer.getContext().isContextLost();
+	}
+
+	private _resumeAfterContextRestore = false;
+
+	protected onContextLost = (event: Event) => {
+		// allows the browser to restore the context
+		event.preventDefault();
+		Console.warn(`${this.logTag}: WebGL context lost`);
+		// only pause our own loop, a shared renderer's loop belongs to its owner
+		this._resumeAfterContextRestore = this._animationLoopRunning;
+		if (this._animationLoopRunning) {
+			this.stopAnimationLoop();
+		}
+		this.events.contextLost.dispatch();
+	}
+
+	/**
+	 * three.js recreates its internal state on restore but the contents of every texture rendered to are gone, including the PMREM environment
+	 */
+	protected onContextRestored = () => {
+		Console.log(`${this.logTag}: WebGL context restored`);
+		this.postProcessing?.restoreContext();
+		if (this.postProcessing?.renderTargetStore !== this.renderTargetStore) {
+			this.renderTargetStore.reallocateAll();
+		}
+		reuploadDataTextures(this.scene);
+		if (this._environmentUrl != null) {
+			this.loadEnvironment(this._environmentUrl);
+		}
+
+		this.events.contextRestored.dispatch({ renderer: this.renderer });
+
+		if (this._resumeAfterContextRestore) {
+			this._resumeAfterContextRestore = false;
+			this.startAnimationLoop();
+		}
+		this.invalidate();
+	}
+
+	protected onAnimationLoop = () => {
+		if (!this.needsFrame) {
+			// nothing changed, stop requesting display frames until invalidate()
+			this.renderer.setAnimationLoop(null);
+			this._animationLoopIdle = true;
+			this._lastRenderTime_ms = NaN;
+			return;
+		}
+		this.consumeFrameRequest();
+		this.animationFrame();
+	}
 
 	/**
 	 * Called automatically every frame by the WebGLRenderer (`setAnimationLoop`). Use `customRender` or subscribe to the `beforeFrameRender` event to customize rendering.
+	 *
+	 * When `frameTime` is given it's used as-is instead of the wall clock (no dt clamping), for deterministic offline rendering (see `FrameCapture`).
+	 * Camera aspect follows `renderTarget` when rendering to a target, or the full view when the camera has a view offset
 	 */
-	animationFrame(renderTarget: WebGLRenderTarget | null = null, camera: Camera = this.camera, renderLayers: Layers = this.renderLayers) {
+	animationFrame(renderTarget: WebGLRenderTarget | null = null, camera: Camera = this.camera, renderLayers: Layers = this.renderLayers, frameTime?: { t_s: number, dt_s: number }) {
 		let { renderer, scene } = this;
-		let renderTime_ms = performance.now();
-		let dt_ms = isNaN(this._lastRenderTime_ms) ? 16 : (renderTime_ms - this._lastRenderTime_ms);
-		let maxDt_ms = 1000 / 30;
-		dt_ms = Math.min(dt_ms, maxDt_ms);
-		this._lastRenderTime_ms = renderTime_ms;
-		let dt_s = dt_ms / 1000;
+		let t_s: number;
+		let dt_s: number;
+		if (frameTime != null) {
+			t_s = frameTime.t_s;
+			dt_s = frameTime.dt_s;
+		} else {
+			let renderTime_ms = performance.now();
+			let dt_ms = isNaN(this._lastRenderTime_ms) ? 16 : (renderTime_ms - this._lastRenderTime_ms);
+			let maxDt_ms = 1000 / 30;
+			dt_ms = Math.min(dt_ms, maxDt_ms);
+			this._lastRenderTime_ms = renderTime_ms;
+			t_s = renderTime_ms / 1000;
+			dt_s = dt_ms / 1000;
+		}
 
 		this.dev?.stats.update();
 
@@ -474,28 +814,29 @@ export class PhysicallyBasedViewer<
 
 		let targetWidth = Math.floor(canvas.clientWidth * this.pixelRatio);
 		let targetHeight = Math.floor(canvas.clientHeight * this.pixelRatio);
+		let outputWidth = renderTarget?.width ?? targetWidth;
+		let outputHeight = renderTarget?.height ?? targetHeight;
 
 		// update camera aspect ratio (must happen before canvasResized event)
-		let aspect = targetWidth / targetHeight;
-		if (isPerspectiveCamera(camera) && camera.aspect != aspect) {
-			camera.aspect = aspect;
-			camera.updateProjectionMatrix();
-		} else if (isArrayCamera(camera)) {
-			for (let cam of camera.cameras) {
-				cam.aspect = aspect;
-				cam.updateProjectionMatrix();
-			}
+		updateCameraAspect(camera, outputWidth / outputHeight);
+		for (let viewport of this.viewports) {
+			viewport.interaction.viewport = viewport.rect;
+			updateCameraAspect(viewport.camera, (viewport.rect.width * outputWidth) / (viewport.rect.height * outputHeight));
 		}
 
 		if ((canvas.width !== targetWidth) || (canvas.height !== targetHeight)) {
-			// canvas.width = targetWidth;
-			// canvas.height = targetHeight;
-			renderer.setSize(targetWidth, targetHeight, false);
+			if (this.outputViewport != null) {
+				// the renderer's canvas is sized by whoever set outputViewport
+				canvas.width = targetWidth;
+				canvas.height = targetHeight;
+			} else {
+				renderer.setSize(targetWidth, targetHeight, false);
+			}
 			this.events.canvasResized.dispatch({ width: targetWidth, height: targetHeight });
 		}
 
 		this.events.frameUpdate.dispatch({
-			t_s: renderTime_ms / 1000,
+			t_s,
 			dt_s,
 			camera,
 			scene,
@@ -505,43 +846,207 @@ export class PhysicallyBasedViewer<
 		if (this.controls.enabled !== false) {
 			this.controls.update?.(dt_s)
 		}
+		for (let viewport of this.viewports) {
+			const controls = viewport.controls;
+			if (controls != null && controls !== this.controls && controls.enabled !== false) {
+				controls.update?.(dt_s);
+			}
+		}
 
 		this.events.beforeFrameRender.dispatch({
 			renderer,
-			t_s: renderTime_ms / 1000,
+			t_s,
 			dt_s,
 			camera,
 			scene,
 		});
 
-		if (this.customRender) {
-			this.customRender(this.renderer, {
-				camera,
-				scene,
-				target: renderTarget,
-				layers: renderLayers,
-				clearColor: this.clearColor,
-				clearDepth: true,
-				clearStencil: true,
-				toneMapping: this.toneMapping,
-				toneMappingExposure: this.toneMappingExposure,
-				restoreGlobalState: true,
-			});
+		const stateStackDepth = Rendering.getStateStackDepth(renderer);
+
+		const renderPassOptions: Omit<Rendering.RenderPassOptions, 'scene' | 'camera'> = {
+			target: renderTarget,
+			layers: renderLayers,
+			clearColor: this.clearColor,
+			clearDepth: true,
+			clearStencil: true,
+			toneMapping: this.toneMapping,
+			toneMappingExposure: this.toneMappingExposure,
+			restoreGlobalState: true,
+		};
+
+		// viewports are in renderer (logical) pixels, bottom-left origin
+		const outputViewport = renderTarget == null ? this.outputViewport : null;
+		if (outputViewport != null) {
+			renderPassOptions.viewport = outputViewport;
+			renderPassOptions.scissor = true;
+		}
+
+		if (this.viewports.length > 0) {
+			const dpr = renderer.getPixelRatio();
+			const gl = renderer.getContext();
+			const frame = outputViewport ?? _frameRect.set(
+				0, 0,
+				(renderTarget?.width ?? gl.drawingBufferWidth) / dpr,
+				(renderTarget?.height ?? gl.drawingBufferHeight) / dpr,
+			);
+			for (let [index, viewport] of this.viewports.entries()) {
+				const { rect } = viewport;
+				_viewportRect.set(
+					frame.x + rect.x * frame.z,
+					frame.y + (1 - rect.y - rect.height) * frame.w,
+					rect.width * frame.z,
+					rect.height * frame.w,
+				);
+				this.renderView(viewport.camera, {
+					...renderPassOptions,
+					layers: viewport.layers ?? renderLayers,
+					clearColor: viewport.clearColor ?? this.clearColor,
+					clearDepth: viewport.clearDepth,
+					viewport: _viewportRect,
+					scissor: true,
+				}, Math.floor(rect.width * outputWidth), Math.floor(rect.height * outputHeight), viewport.render ?? this.customRender, { t_s, dt_s }, `viewport${index}`);
+			}
 		} else {
-			this.defaultRender(camera, {
-				target: renderTarget,
-				layers: renderLayers,
-				clearColor: this.clearColor,
-				clearDepth: true,
-				clearStencil: true,
-				toneMapping: this.toneMapping,
-				toneMappingExposure: this.toneMappingExposure,
-				restoreGlobalState: true,
-			});
+			this.renderView(camera, renderPassOptions, outputWidth, outputHeight, this.customRender, { t_s, dt_s });
+		}
+
+		if (this.devMode && Rendering.getStateStackDepth(renderer) !== stateStackDepth) {
+			Console.warn(`${this.logTag}: Rendering.pushState() / popState() unbalanced this frame, stack depth changed from ${stateStackDepth} to ${Rendering.getStateStackDepth(renderer)}`);
+		}
+
+		// once per display frame regardless of how many views rendered, drives eviction of idle targets
+		this.renderTargetStore.nextFrame();
+
+		// effects that are still converging or transitioning keep requesting frames when rendering on demand
+		let needsFrame = this.viewports.length === 0 && renderNeedsFrame(this.customRender);
+		for (let viewport of this.viewports) {
+			needsFrame ||= renderNeedsFrame(viewport.render ?? this.customRender);
+		}
+		if (needsFrame) {
+			this.invalidate();
+		}
+	}
+
+	protected renderView(camera: Camera, renderPassOptions: Omit<Rendering.RenderPassOptions, 'scene' | 'camera'>, width: number, height: number, render: PhysicallyBasedViewer['customRender'], frameTime: { t_s: number, dt_s: number }, view?: string) {
+		const { renderer, scene } = this;
+
+		this.transmission?.render(renderer, {
+			scene,
+			camera,
+			width,
+			height,
+			layers: renderPassOptions.layers,
+			clearColor: this.clearColor,
+			restoreGlobalState: true,
+			view,
+		});
+
+		if (render) {
+			const options: Rendering.RenderPassOptions = { camera, scene, ...renderPassOptions };
+			if (typeof render === 'function') {
+				render(renderer, options, frameTime);
+			} else {
+				render.render(renderer, options, frameTime);
+			}
+		} else {
+			this.defaultRender(camera, renderPassOptions);
 		}
 	}
 
-	customRender: undefined | ((renderer: WebGLRenderer, renderPassOptions: Rendering.RenderPassOptions) => void) = undefined;
+	/**
+	 * Region of the renderer's canvas to render into, in logical pixels with a bottom-left origin, when the renderer's canvas is not `canvas` (see `SharedCanvas`).
+	 * While set the viewer sizes `canvas` but leaves the renderer's size alone
+	 */
+	outputViewport: Vector4 | null = null;
+
+	/**
+	 * Viewports rendered instead of `camera` when not empty, see `addViewport()`
+	 */
+	readonly viewports = new Array<Viewport>();
+	private _controlsEnabledBeforeViewports: boolean | undefined = undefined;
+	private _ownedViewportControls = new Set<ViewportControls>();
+	private _viewportControlsListeners = new Map<ViewportControls, () => void>();
+
+	/**
+	 * Render a camera into a region of the canvas, for split-screen and picture-in-picture views. Viewports are rendered in the order they're added
+	 *
+	 * While any viewport exists the viewer's own `camera`, `controls` and `threeInteraction` are inactive; add a viewport with `viewer.camera` to keep it on screen
+	 *
+	 * @example
+	 * ```typescript
+	 * const top = new OrthographicCamera(-1, 1, 1, -1, 0.01, 100);
+	 * viewer.addViewport({ rect: { x: 0, y: 0, width: 0.5, height: 1 }, camera: viewer.camera, controls: (camera, el) => new OrbitControls(camera, el) });
+	 * viewer.addViewport({ rect: { x: 0.5, y: 0, width: 0.5, height: 1 }, camera: top });
+	 * ```
+	 */
+	addViewport(options: ViewportOptions): Viewport {
+		const interaction = new ThreeInteraction(this.interactionManager, this.scene, options.camera);
+		interaction.viewport = options.rect;
+		interaction.gpuPicker = this.threeInteraction.gpuPicker;
+
+		interaction.events.objectEvent.addListener(this.requestFrame);
+
+		let controls: ViewportControls | null = null;
+		if (typeof options.controls === 'function') {
+			controls = options.controls(options.camera, createDomEventProxy(this.interactionManager, undefined, () => viewport.rect) as any);
+			this._ownedViewportControls.add(controls);
+		} else if (options.controls != null) {
+			controls = options.controls;
+		}
+		if (controls != null) {
+			this._viewportControlsListeners.set(controls, listenForControlsChange(controls, this.requestFrame));
+		}
+
+		if (options.render == null && this.customRender != null && this.viewports.some(v => v.render == null)) {
+			Console.warn(`${this.logTag}: viewports share customRender, effects with history (TAA, accumulation, motion vectors) will mix their views. Pass a \`render\` for each viewport`);
+		}
+
+		const viewport: Viewport = {
+			rect: options.rect,
+			camera: options.camera,
+			layers: options.layers,
+			clearColor: options.clearColor,
+			clearDepth: options.clearDepth ?? true,
+			controls,
+			render: options.render,
+			interaction,
+		};
+
+		if (this.viewports.length === 0) {
+			this.threeInteraction.enabled = false;
+			this._controlsEnabledBeforeViewports = this.controls.enabled;
+			this.controls.enabled = false;
+		}
+		this.viewports.push(viewport);
+		this.invalidate();
+		return viewport;
+	}
+
+	removeViewport(viewport: Viewport) {
+		const index = this.viewports.indexOf(viewport);
+		if (index === -1) return;
+		this.viewports.splice(index, 1);
+
+		viewport.interaction.dispose();
+		if (viewport.controls != null) {
+			this._viewportControlsListeners.get(viewport.controls)?.();
+			this._viewportControlsListeners.delete(viewport.controls);
+			if (this._ownedViewportControls.delete(viewport.controls)) {
+				viewport.controls.dispose?.();
+			}
+		}
+
+		if (this.viewports.length === 0) {
+			this.threeInteraction.enabled = true;
+			this.controls.enabled = this._controlsEnabledBeforeViewports;
+		}
+		this.invalidate();
+	}
+
+	/**
+	 * Replaces `defaultRender`, either a function or an object with a `render` method (`RenderGraph`, `PostProcessingStack`) that will be rendered with the viewer's render options
+	 */
+	customRender: undefined | CustomRenderer | CustomRenderer['render'] = undefined;
 
 	defaultRender(camera: Camera, renderPassOptions: Omit<Rendering.RenderPassOptions, 'scene' | 'camera'>) {
 		Rendering.renderPass(this.renderer, {
@@ -553,9 +1058,18 @@ export class PhysicallyBasedViewer<
 
 	dispose = () => {
 		Console.log(`${this.logTag}: dispose()</>`);
+		for (let viewport of [...this.viewports]) {
+			this.removeViewport(viewport);
+		}
+		this.renderer.domElement.removeEventListener('webglcontextlost', this.onContextLost);
+		this.renderer.domElement.removeEventListener('webglcontextrestored', this.onContextRestored);
 		this.interactionManager.removeEventListeners();
+		this._removeControlsChangeListener();
+		this._resizeObserver?.disconnect();
 		this.threeInteraction.dispose();
+		this.threeInteraction.gpuPicker?.dispose();
 		this.events.dispose.dispatch();
+		this.postProcessing?.dispose();
 		this.renderTargetStore.clearAndDisposeAll();
 		// Don't dispose a renderer we don't own — that would kill the
 		// shared GL context for siblings still using it.
@@ -566,7 +1080,10 @@ export class PhysicallyBasedViewer<
 	}
 
 	protected _loadEnvironmentPromise: Promise<any> = Promise.resolve(null);
+	/** Reloaded when the WebGL context is restored */
+	protected _environmentUrl: string | null = null;
 	loadEnvironment = (url: string | null | undefined, onProgress: (event: ProgressEvent) => void = () => { }) => {
+		this._environmentUrl = url || null;
 		if (!url) {
 			this.scene.environment = null;
 			this.scene.add(this.fallbackAmbientLight);
@@ -635,18 +1152,53 @@ type InteractionEvents = typeof InteractionManager.prototype.events;
 
 // tested with OrbitControls
 // improves events handling and allows better interaction with our event system
-function createDomEventProxy(interactionManager: InteractionManager, priority?: number) {
+// with getViewportRect, interactions only start inside the viewport and the element reports the viewport's bounds
+function createDomEventProxy(interactionManager: InteractionManager, priority?: number, getViewportRect?: () => ViewportRect) {
 	let eventMap: Partial<{ [K in keyof InteractionEvents as Lowercase<K>]: InteractionEvents[K] }> = {};
 	for (let key in interactionManager.events) {
 		(eventMap as any)[key.toLowerCase()] = (interactionManager.events as any)[key];
 	}
 	// we remap pointer up to global pointer up to catch edge cases, for example, right click drag out of browser window
 	eventMap.pointerup = eventMap.globalpointerup;
+
+	const getBoundingClientRect = () => {
+		let bounds = interactionManager.el.getBoundingClientRect();
+		if (getViewportRect == null) return bounds;
+		let rect = getViewportRect();
+		return new DOMRect(
+			bounds.left + rect.x * bounds.width,
+			bounds.top + rect.y * bounds.height,
+			rect.width * bounds.width,
+			rect.height * bounds.height,
+		);
+	}
+
+	// events that start an interaction are dropped outside the viewport, moves and ups pass through so drags can leave it
+	const viewportFilteredTypes = ['pointerdown', 'wheel', 'contextmenu'];
+	let filteredListeners = new Map<(event: Event) => void, (event: Event) => void>();
+	const getListener = (type: string, listener: (event: Event) => void) => {
+		if (getViewportRect == null || !viewportFilteredTypes.includes(type.toLowerCase())) {
+			return listener;
+		}
+		let filtered = filteredListeners.get(listener);
+		if (filtered == null) {
+			filtered = (event: Event) => {
+				let bounds = getBoundingClientRect();
+				let { clientX, clientY } = event as PointerEvent;
+				if (clientX >= bounds.left && clientX < bounds.right && clientY >= bounds.top && clientY < bounds.bottom) {
+					listener(event);
+				}
+			}
+			filteredListeners.set(listener, filtered);
+		}
+		return filtered;
+	}
+
 	return {
 		addEventListener: (type: string, listener: (event: Event) => void, options: {}) => {
 			let eventEmitter: EventSignal<Event> = (eventMap as any)[type.toLowerCase()];
 			if (eventEmitter != null) {
-				eventEmitter.addListener(listener, priority);
+				eventEmitter.addListener(getListener(type, listener), priority);
 			} else {
 				Console.warn(`DomEventProxy: unknown event type "${type}"`);
 			}
@@ -654,7 +1206,7 @@ function createDomEventProxy(interactionManager: InteractionManager, priority?:
 		removeEventListener: (type: string, listener: (event: Event) => void, options: {}) => {
 			let eventEmitter: EventSignal<Event> = (eventMap as any)[type.toLowerCase()];
 			if (eventEmitter != null) {
-				eventEmitter.removeListener(listener);
+				eventEmitter.removeListener(getListener(type, listener));
 			} else {
 				Console.warn(`DomEventProxy: unknown event type "${type}"`);
 			}
@@ -669,14 +1221,12 @@ function createDomEventProxy(interactionManager: InteractionManager, priority?:
 		// pass through
 		getRootNode: () => interactionManager.el.getRootNode(),
 		ownerDocument: interactionManager.el.ownerDocument,
-		getBoundingClientRect: () => {
-			return interactionManager.el.getBoundingClientRect();
-		},
+		getBoundingClientRect,
 		get clientWidth() {
-			return interactionManager.el.clientWidth;
+			return interactionManager.el.clientWidth * (getViewportRect?.().width ?? 1);
 		},
 		get clientHeight() {
-			return interactionManager.el.clientHeight;
+			return interactionManager.el.clientHeight * (getViewportRect?.().height ?? 1);
 		},
 	}
 
@@ -688,4 +1238,75 @@ function isPerspectiveCamera(camera: Camera): camera is PerspectiveCamera {
 
 function isArrayCamera(camera: Camera): camera is ArrayCamera {
 	return camera.type === 'ArrayCamera';
-}
\ No newline at end of file
+}
+
+function renderNeedsFrame(render: CustomRenderer | CustomRenderer['render'] | undefined) {
+	return typeof render === 'object' && render.needsFrame === true;
+}
+
+function isOrthographicCamera(camera: Camera): camera is OrthographicCamera {
+	return camera.type === 'OrthographicCamera';
+}
+
+// three.js re-uploads textures after a context restore but partial updates (`updateRanges`) would only upload the changed rows
+function reuploadDataTextures(scene: Scene) {
+	const reupload = (value: unknown) => {
+		if ((value as DataTexture | null)?.isDataTexture) {
+			const texture = value as DataTexture;
+			texture.clearUpdateRanges();
+			texture.needsUpdate = true;
+		}
+	}
+	ObjectUtils.forEachMaterial(scene, (mesh, material) => {
+		for (let key in material) {
+			reupload((material as any)[key]);
+		}
+		const uniforms = (material as Partial<ShaderMaterial>).uniforms;
+		for (let key in uniforms) {
+			reupload(uniforms[key].value);
+		}
+	});
+}
+
+// three.js controls dispatch `change` whenever they move the camera, including while damping
+function listenForControlsChange(controls: object, listener: () => void): () => void {
+	const dispatcher = controls as Partial<EventDispatcher<{ change: {} }>>;
+	if (typeof dispatcher.addEventListener !== 'function') {
+		return () => { };
+	}
+	dispatcher.addEventListener('change', listener);
+	return () => dispatcher.removeEventListener?.('change', listener);
+}
+
+// a camera with a view offset renders part of a larger frame (tiled rendering), keep the full frame's aspect
+function updateCameraAspect(camera: Camera, aspect: number) {
+	if (isPerspectiveCamera(camera) && camera.view?.enabled) {
+		aspect = camera.view.fullWidth / camera.view.fullHeight;
+	}
+	if (isPerspectiveCamera(camera) && camera.aspect != aspect) {
+		camera.aspect = aspect;
+		camera.updateProjectionMatrix();
+	} else if (isArrayCamera(camera)) {
+		for (let cam of camera.cameras) {
+			cam.aspect = aspect;
+			cam.updateProjectionMatrix();
+		}
+	} else if (isOrthographicCamera(camera)) {
+		if (camera.view?.enabled) {
+			aspect = camera.view.fullWidth / camera.view.fullHeight;
+		}
+		// keep the vertical extent and center, fit the horizontal extent to the aspect
+		const halfWidth = (camera.top - camera.bottom) * 0.5 * aspect;
+		const centerX = (camera.left + camera.right) * 0.5;
+		const left = centerX - halfWidth;
+		const right = centerX + halfWidth;
+		if (camera.left !== left || camera.right !== right) {
+			camera.left = left;
+			camera.right = right;
+			camera.updateProjectionMatrix();
+		}
+	}
+}
+
+const _viewportRect = new Vector4();
+const _frameRect = new Vector4();
\ No newline at end of file
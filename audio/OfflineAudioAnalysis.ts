@@ -0,0 +1,80 @@
+import { AudioAnalyzer, AudioAnalyzerData } from "./AudioAnalyzer.js";
+
+export type OfflineAudioAnalysisOptions = {
+	/** @default 2048 */
+	fftSize?: number,
+	/** @default 0.8 */
+	smoothingTimeConstant?: number,
+};
+
+/**
+ * Pre-analysed `AudioAnalyzer` data for every video frame of an audio buffer, for deterministic offline rendering of audio-reactive scenes (see `FrameCapture`)
+ *
+ * The buffer is rendered through an `OfflineAudioContext`, suspending at each frame to read the analyser, so results match what a live `AudioAnalyzer` would report at that time.
+ * To drive an `AudioAnalyzerTexture` from it, `stop()` the texture's timer and call `update()` once per captured frame with `getAudioData: () => analysis.getAnalyzerData(t_s)`
+ */
+export class OfflineAudioAnalysis {
+
+	readonly fps: number;
+	readonly duration_s: number;
+	readonly frames: ReadonlyArray<AudioAnalyzerData>;
+
+	protected constructor(fps: number, duration_s: number, frames: AudioAnalyzerData[]) {
+		this.fps = fps;
+		this.duration_s = duration_s;
+		this.frames = frames;
+	}
+
+	/**
+	 * Analyser data at `t_s`, or null outside the audio
+	 */
+	getAnalyzerData(t_s: number): AudioAnalyzerData | null {
+		// small epsilon so times computed as index / fps land on their own frame
+		const index = Math.floor(t_s * this.fps + 1e-6);
+		if (index < 0 || index >= this.frames.length) return null;
+		return this.frames[index];
+	}
+
+	static async analyze(audioBuffer: AudioBuffer, fps: number, options: OfflineAudioAnalysisOptions = {}): Promise<OfflineAudioAnalysis> {
+		const { sampleRate, duration } = audioBuffer;
+		const context = new OfflineAudioContext(audioBuffer.numberOfChannels, audioBuffer.length, sampleRate);
+
+		const source = context.createBufferSource();
+		source.buffer = audioBuffer;
+		const analyser = context.createAnalyser();
+		analyser.fftSize = options.fftSize ?? 2048;
+		analyser.smoothingTimeConstant = options.smoothingTimeConstant ?? 0.8;
+		source.connect(analyser);
+		analyser.connect(context.destination);
+
+		const analyzer = new AudioAnalyzer(analyser);
+		const frameCount = Math.ceil(duration * fps);
+		const frames = new Array<AudioAnalyzerData | undefined>(frameCount);
+
+		// suspend times are rounded to the render quantum and each can only be scheduled once,
+		// frames falling in an already scheduled quantum reuse the previous frame's data
+		const quantum = 128;
+		let lastQuantum = -1;
+		for (let i = 0; i < frameCount; i++) {
+			const q = Math.floor(i / fps * sampleRate / quantum);
+			if (q === lastQuantum) continue;
+			const suspendTime_s = q * quantum / sampleRate;
+			if (suspendTime_s >= duration) break;
+			lastQuantum = q;
+			context.suspend(suspendTime_s).then(() => {
+				frames[i] = analyzer.getAnalyzerData();
+				context.resume();
+			});
+		}
+
+		source.start(0);
+		await context.startRendering();
+
+		for (let i = 1; i < frameCount; i++) {
+			frames[i] ??= frames[i - 1];
+		}
+
+		return new OfflineAudioAnalysis(fps, duration, frames.filter((frame): frame is AudioAnalyzerData => frame != null));
+	}
+
+}
@@ -1,4 +1,4 @@
-import { ClampToEdgeWrapping, HalfFloatType, LinearFilter, LinearMipMapLinearFilter, NearestFilter, NoColorSpace, RawShaderMaterial, RenderTargetOptions, RepeatWrapping, RGBAFormat, Texture, Uniform, Vector3, WebGLRenderer, WebGLRenderTarget } from "three";
+import { ClampToEdgeWrapping, DataTexture, DataUtils, HalfFloatType, LinearFilter, LinearMipMapLinearFilter, NearestFilter, NoColorSpace, RawShaderMaterial, RenderTargetOptions, RepeatWrapping, RGBAFormat, Texture, Uniform, Vector3, WebGLRenderer, WebGLRenderTarget } from "three";
 import { Rendering } from "../rendering/Rendering.js";
 import { DualRenderTarget } from "../rendering/DualRenderTarget.js";
 
@@ -18,6 +18,18 @@ export type FluidSharedUniforms = {
     color: Uniform<Texture>,
 }
 
+export type FluidSimulationSnapshot = {
+    color: FluidSimulationSnapshotTexture,
+    velocity: FluidSimulationSnapshotTexture,
+    pressure: FluidSimulationSnapshotTexture,
+}
+
+export type FluidSimulationSnapshotTexture = {
+    width: Int,
+    height: Int,
+    data: Rendering.ReadPixelsArray,
+}
+
 export class FluidSimulation {
 
     readonly sharedUniforms: FluidSharedUniforms;
@@ -146,7 +158,7 @@ export class FluidSimulation {
         applyForces: (velocityTarget: WebGLRenderTarget) => void,
         applyColor: (colorTarget: WebGLRenderTarget) => void
     ): void {
-        Rendering.saveGlobalState(this.renderer);
+        const stateDepth = Rendering.pushState(this.renderer);
 
         // resize simulation textures if required
         if (this.simulationWidth !== int32(this.width * this.simulationTextureScale)) {
@@ -215,7 +227,7 @@ export class FluidSimulation {
         });
         this.colorTexture.swap();
 
-        Rendering.restoreGlobalState(this.renderer);
+        Rendering.popState(this.renderer, stateDepth);
     }
 
     public resize(newWidth: Int, newHeight: Int): void {
@@ -233,6 +245,65 @@ export class FluidSimulation {
         this.sharedUniforms.divergence.value = this.divergenceTexture.texture;
     }
 
+    /**
+     * Read the simulation state back to the CPU, for example every few seconds so it survives a WebGL context loss, see `restoreContext()`
+     */
+    public async createSnapshot(): Promise<FluidSimulationSnapshot> {
+        const read = async (target: WebGLRenderTarget): Promise<FluidSimulationSnapshotTexture> => ({
+            width: target.width,
+            height: target.height,
+            data: await Rendering.readPixelsAsync(this.renderer, target),
+        });
+        return {
+            color: await read(this.colorTexture.getReadRenderTarget()),
+            velocity: await read(this.velocityTexture.getReadRenderTarget()),
+            pressure: await read(this.pressureTexture.getReadRenderTarget()),
+        };
+    }
+
+    /**
+     * Reallocate all targets after a WebGL context restore. The simulation restarts from rest unless a snapshot is given, which is scaled if the size has changed since
+     */
+    public restoreContext(snapshot?: FluidSimulationSnapshot): void {
+        this.colorTexture.reallocate();
+        this.velocityTexture.reallocate();
+        this.pressureTexture.reallocate();
+
+        this.divergenceTexture.dispose();
+        this.divergenceTexture = new WebGLRenderTarget(this.simulationWidth, this.simulationHeight, this.textureOptionsNearest);
+        this.sharedUniforms.divergence.value = this.divergenceTexture.texture;
+
+        if (snapshot != null) {
+            this.uploadSnapshotTexture(snapshot.color, this.colorTexture);
+            this.uploadSnapshotTexture(snapshot.velocity, this.velocityTexture);
+            this.uploadSnapshotTexture(snapshot.pressure, this.pressureTexture);
+        }
+    }
+
+    protected uploadSnapshotTexture(snapshot: FluidSimulationSnapshotTexture, target: DualRenderTarget) {
+        const readTarget = target.getReadRenderTarget();
+        const type = readTarget.texture.type;
+        // half float targets are read back as Float32Array but WebGL only accepts a Uint16Array for HALF_FLOAT uploads
+        let data = snapshot.data;
+        if (type === HalfFloatType && data instanceof Float32Array) {
+            const halfData = new Uint16Array(data.length);
+            for (let i = 0; i < data.length; i++) {
+                halfData[i] = DataUtils.toHalfFloat(data[i]);
+            }
+            data = halfData;
+        }
+        const texture = new DataTexture(data, snapshot.width, snapshot.height, RGBAFormat, type);
+        texture.magFilter = LinearFilter;
+        texture.minFilter = LinearFilter;
+        texture.needsUpdate = true;
+        Rendering.blit(this.renderer, {
+            source: texture,
+            target: readTarget,
+            restoreGlobalState: true,
+        });
+        texture.dispose();
+    }
+
     public clipSpaceToSimulationSpaceX(x: number): number {
         const aspect = this.simulationWidth / this.simulationHeight;
         return x * aspect;
@@ -0,0 +1,202 @@
+import { Camera, FloatType, Intersection, Layers, Material, Matrix4, NearestFilter, Object3D, OrthographicCamera, PerspectiveCamera, Scene, Uniform, Vector2, Vector3, WebGLRenderer, WebGLRenderTarget } from "three";
+import { ShaderMaterial } from "../materials/ShaderMaterial.js";
+import { Layer } from "../rendering/Layer.js";
+import { Rendering } from "../rendering/Rendering.js";
+
+/**
+ * Picks objects by rendering object ids and depth for the pixel under the pointer, then reading it back
+ *
+ * Unlike raycasting this matches what is drawn: skinning, morph targets, instancing and shader displacement that uses the standard vertex chunks are all respected.
+ * Only the nearest object is returned and objects that are not rendered (invisible, culled by layers) cannot be picked
+ *
+ * @example
+ * ```typescript
+ * const picker = new GpuPicker(renderer);
+ * const [hit] = picker.pick(scene, camera, { x: clipX, y: clipY });
+ * ```
+ */
+export class GpuPicker {
+
+    readonly renderer: WebGLRenderer;
+
+    /**
+     * Only objects matching these layers are rendered
+     * @default Layer.Interactive
+     */
+    readonly layers = new Layers();
+
+    protected target = new WebGLRenderTarget(1, 1, {
+        type: FloatType,
+        magFilter: NearestFilter,
+        minFilter: NearestFilter,
+        depthBuffer: true,
+    });
+
+    /** Materials are assigned per object in traversal order and reused between picks */
+    protected materialPool = new Array<PickingMaterial>();
+    protected pickedObjects = new Array<Object3D>();
+    protected readBuffer = new Float32Array(4);
+
+    protected _savedProjection = new Matrix4();
+    protected _pickMatrix = new Matrix4();
+
+    constructor(renderer: WebGLRenderer) {
+        this.renderer = renderer;
+        this.layers.set(Layer.Interactive);
+    }
+
+    /**
+     * Returns the nearest object under `pointerClipSpace`, or an empty array if nothing was hit
+     */
+    pick(scene: Scene, camera: Camera, pointerClipSpace: { x: number, y: number }): Array<Intersection<Object3D>> {
+        const { renderer, pickedObjects } = this;
+        pickedObjects.length = 0;
+
+        // zoom the projection so the pixel under the pointer covers the whole 1x1 target
+        const drawingBufferSize = renderer.getDrawingBufferSize(_size);
+        const sx = Math.max(drawingBufferSize.x, 1);
+        const sy = Math.max(drawingBufferSize.y, 1);
+        this._pickMatrix.set(
+            sx, 0, 0, -sx * pointerClipSpace.x,
+            0, sy, 0, -sy * pointerClipSpace.y,
+            0, 0, 1, 0,
+            0, 0, 0, 1,
+        );
+        this._savedProjection.copy(camera.projectionMatrix);
+        camera.projectionMatrix.premultiply(this._pickMatrix);
+
+        try {
+            Rendering.renderPass(renderer, {
+                scene,
+                camera,
+                target: this.target,
+                layers: this.layers,
+                clearColor: { rgb: 0x000000, alpha: 0 },
+                clearDepth: true,
+                overrideMaterial: (object) => {
+                    const material = this.getMaterial(pickedObjects.length, object);
+                    pickedObjects.push(object);
+                    return Array.isArray(object.material) ? object.material.map(() => material) : material;
+                },
+                restoreGlobalState: true,
+            });
+        } finally {
+            camera.projectionMatrix.copy(this._savedProjection);
+        }
+
+        renderer.readRenderTargetPixels(this.target, 0, 0, 1, 1, this.readBuffer);
+        const [id, depth, instance] = this.readBuffer;
+        const object = id > 0 ? pickedObjects[Math.round(id) - 1] : undefined;
+        pickedObjects.length = 0;
+        if (object == null) {
+            return [];
+        }
+
+        const point = new Vector3(pointerClipSpace.x, pointerClipSpace.y, depth * 2 - 1).unproject(camera);
+        const intersection: Intersection<Object3D> = {
+            distance: getRayOrigin(camera, pointerClipSpace, _origin).distanceTo(point),
+            point,
+            object,
+        };
+        if (instance > 0) {
+            intersection.instanceId = Math.round(instance) - 1;
+        }
+        return [intersection];
+    }
+
+    protected getMaterial(index: number, source: Object3D & { material: Material | Material[] }) {
+        let material = this.materialPool[index];
+        if (material == null) {
+            material = this.materialPool[index] = new PickingMaterial();
+        }
+        material.uniforms.objectId.value = index + 1;
+        material.copySource(Array.isArray(source.material) ? source.material[0] : source.material);
+        return material;
+    }
+
+    dispose() {
+        for (let material of this.materialPool) {
+            material.dispose();
+        }
+        this.materialPool.length = 0;
+        this.target.dispose();
+    }
+
+}
+
+const _size = new Vector2();
+const _origin = new Vector3();
+
+/**
+ * Origin of the pointer ray, matches `Raycaster.setFromCamera()`
+ */
+function getRayOrigin(camera: Camera, pointerClipSpace: { x: number, y: number }, out: Vector3) {
+    if ((camera as PerspectiveCamera).isPerspectiveCamera) {
+        return out.setFromMatrixPosition(camera.matrixWorld);
+    } else {
+        const near = (camera as OrthographicCamera).near ?? 0;
+        const far = (camera as OrthographicCamera).far ?? 1;
+        return out.set(pointerClipSpace.x, pointerClipSpace.y, (near + far) / (near - far)).unproject(camera);
+    }
+}
+
+class PickingMaterial extends ShaderMaterial<{
+    objectId: Uniform<number>,
+}> {
+
+    constructor() {
+        super({
+            uniforms: {
+                objectId: new Uniform(0),
+            },
+            vertexShader: /*glsl*/`
+                #include <common>
+                #include <batching_pars_vertex>
+                #include <morphtarget_pars_vertex>
+                #include <skinning_pars_vertex>
+                #include <clipping_planes_pars_vertex>
+
+                flat varying float vInstance;
+
+                void main() {
+                    #include <batching_vertex>
+                    #include <skinbase_vertex>
+
+                    #include <begin_vertex>
+                    #include <morphtarget_vertex>
+                    #include <skinning_vertex>
+                    #include <project_vertex>
+                    #include <clipping_planes_vertex>
+
+                    #ifdef USE_INSTANCING
+                    vInstance = float(gl_InstanceID + 1);
+                    #else
+                    vInstance = 0.0;
+                    #endif
+                }
+            `,
+            fragmentShader: /*glsl*/`
+                uniform float objectId;
+
+                flat varying float vInstance;
+
+                #include <clipping_planes_pars_fragment>
+
+                void main() {
+                    #include <clipping_planes_fragment>
+                    gl_FragColor = vec4(objectId, gl_FragCoord.z, vInstance, 1.0);
+                }
+            `,
+        });
+    }
+
+    copySource(source: Material) {
+        if (this.side !== source.side) {
+            this.side = source.side;
+            this.needsUpdate = true;
+        }
+        this.clippingPlanes = source.clippingPlanes;
+        this.visible = source.visible;
+    }
+
+}
@@ -2,16 +2,42 @@ import { Camera, Intersection, Object3D, Object3DEventMap, Ray, Raycaster, Scene
 import { EventSignal } from "@haxiomic/event-signal";
 import InteractionManager from "./InteractionManager.js";
 import { Layer } from "../rendering/Layer.js";
+import { GpuPicker } from "./GpuPicker.js";
 
 export type PointerEventExtended = EventSignal.Emitted<PointerEvent>;
 
 export class ThreeInteraction {
 
     readonly interactionManager: InteractionManager
+    /** Priority of the pointer listeners on `interactionManager.events` */
+    readonly priority: number
     scene: Scene
     camera: Camera
     raycaster = new Raycaster()
 
+    /**
+     * When set, objects are picked by rendering ids for the pixel under the pointer instead of raycasting.
+     * Only the nearest object receives events and invisible objects are never hit, see `GpuPicker`
+     */
+    gpuPicker: GpuPicker | null = null
+
+    /** When false, pointers only reach objects that captured them */
+    enabled = true
+
+    /**
+     * Region of the element this interaction's camera renders to, in fractions of the element with the origin top-left.
+     * Pointers outside it are ignored unless captured and clip space is relative to it. `null` for the whole element
+     */
+    viewport: ViewportRect | null = null
+
+    readonly events = {
+        /** Dispatched after every event delivered to an interactive object, e.g. to request a frame when rendering on demand */
+        objectEvent: new EventSignal<{
+            type: keyof InteractionFields['events'],
+            target: InteractiveObject3D,
+        }>(),
+    }
+
     readonly capturedPointers: { [id: number]: Array<InteractiveObject3D> | undefined } = {}
     readonly hoveredObjects: { [id: number]: Array<InteractiveObject3D> | undefined } = {}
 
@@ -28,6 +54,7 @@ export class ThreeInteraction {
 
     constructor(interactionManager: InteractionManager, scene: Scene, camera: Camera, priority = 1) {
         this.interactionManager = interactionManager
+        this.priority = priority
         this.scene = scene
         this.camera = camera
         this.raycaster.layers.set(Layer.Interactive)
@@ -47,6 +74,7 @@ export class ThreeInteraction {
     }
 
     protected onPointerDown = (event: PointerEventExtended) => {
+        if (!this.acceptsPointer(event)) return;
         for (let intersection of this.intersectSceneWithPointer(event) as Array<Intersection<InteractiveObject3D>>) {
             let object = intersection.object;
 
@@ -66,6 +94,7 @@ export class ThreeInteraction {
                 preventCapture: preventCaptureCallback,
                 capturePointer: capturePointerCallback,
             });
+            this.events.objectEvent.dispatch({ type: 'pointerDown', target: object });
 
             if (capturedPointer) {
                 this.interactionManager.el.setPointerCapture(event.pointerId)
@@ -85,7 +114,7 @@ export class ThreeInteraction {
 
         let capturedObjects = this.capturedPointers[e.pointerId] ?? [];
 
-        let intersections = this.intersectSceneWithPointer(e);
+        let intersections = this.acceptsPointer(e) ? this.intersectSceneWithPointer(e) : [];
 
         let hoveredObjects = this.hoveredObjects[e.pointerId] ?? []
         this.hoveredObjects[e.pointerId] = hoveredObjects
@@ -106,6 +135,7 @@ export class ThreeInteraction {
                     captured: capturedObjects.indexOf(object) !== -1,
                     raycaster: this.raycaster,
                 });
+                this.events.objectEvent.dispatch({ type: 'pointerOut', target: object });
                 hoveredObjects.splice(hoveredObjects.indexOf(object), 1)
             }
         }
@@ -126,6 +156,7 @@ export class ThreeInteraction {
                 raycaster: this.raycaster,
                 intersection,
             });
+            this.events.objectEvent.dispatch({ type: 'pointerMove', target: object });
 
             // remove from capturedObjectsStillNeedingDispatch if it was dispatched
             if (captured) {
@@ -150,6 +181,7 @@ export class ThreeInteraction {
                     raycaster: this.raycaster,
                     intersection: intersection,
                 });
+                this.events.objectEvent.dispatch({ type: 'pointerOver', target: object });
             }
 
             if (e.propagationStopped) {
@@ -168,6 +200,7 @@ export class ThreeInteraction {
                 raycaster: this.raycaster,
                 intersection: undefined, // no intersection for captured objects
             });
+            this.events.objectEvent.dispatch({ type: 'pointerMove', target: capturedObject });
 
             if (cursor == null) {
                 cursor = capturedObject.interaction.cursor
@@ -203,7 +236,8 @@ export class ThreeInteraction {
 
         const capturedObjectsStillNeedingDispatch = [...capturedObjects];
 
-        for (let intersect of this.intersectSceneWithPointer(e) as Array<Intersection<InteractiveObject3D>>) {
+        let intersections = this.acceptsPointer(e) ? this.intersectSceneWithPointer(e) : [];
+        for (let intersect of intersections as Array<Intersection<InteractiveObject3D>>) {
             let object = intersect.object;
 
             // already dispatched for object
@@ -216,6 +250,7 @@ export class ThreeInteraction {
                 raycaster: this.raycaster,
                 intersection: intersect,
             });
+            this.events.objectEvent.dispatch({ type: 'pointerUp', target: object });
 
             // remove from capturedObjectsStillNeedingDispatch if it was dispatched
             if (captured) {
@@ -239,6 +274,7 @@ export class ThreeInteraction {
                 raycaster: this.raycaster,
                 intersection: undefined, // no intersection for captured objects
             });
+            this.events.objectEvent.dispatch({ type: 'pointerUp', target: capturedObject });
         }
     }
 
@@ -250,7 +286,9 @@ export class ThreeInteraction {
 
     intersectSceneClipSpace(pointerClipSpace: { x: number; y: number }) {
         this.raycaster.setFromCamera(new Vector2(pointerClipSpace.x, pointerClipSpace.y), this.camera)
-        let intersections = this.raycaster.intersectObjects(this.scene.children, true)
+        let intersections = this.gpuPicker != null
+            ? this.gpuPicker.pick(this.scene, this.camera, pointerClipSpace)
+            : this.raycaster.intersectObjects(this.scene.children, true)
         let includedObjects: Array<Intersection<Object3D>> = []
         for (let intersection of intersections) {
             // skip object if not visible
@@ -289,13 +327,40 @@ export class ThreeInteraction {
     }
 
     clientToClipSpace(e: {clientX: number, clientY: number}) {
-        let rect = this.interactionManager.el.getBoundingClientRect()
+        let { u, v } = this.clientToViewportUv(e)
         return {
-            x: (e.clientX - rect.left) / rect.width * 2 - 1,
-            y: -(e.clientY - rect.top) / rect.height * 2 + 1,
+            x: u * 2 - 1,
+            y: -v * 2 + 1,
         }
     }
 
+    /**
+     * True when the pointer is inside `viewport` (or there's no viewport)
+     */
+    containsPointer(e: {clientX: number, clientY: number}) {
+        let { u, v } = this.clientToViewportUv(e)
+        return u >= 0 && u <= 1 && v >= 0 && v <= 1
+    }
+
+    protected acceptsPointer(e: {clientX: number, clientY: number}) {
+        return this.enabled && this.containsPointer(e)
+    }
+
+    /**
+     * Pointer position within the viewport, 0 to 1 with the origin top-left
+     */
+    private clientToViewportUv(e: {clientX: number, clientY: number}) {
+        let rect = this.interactionManager.el.getBoundingClientRect()
+        let u = (e.clientX - rect.left) / rect.width
+        let v = (e.clientY - rect.top) / rect.height
+        let viewport = this.viewport
+        if (viewport != null) {
+            u = (u - viewport.x) / viewport.width
+            v = (v - viewport.y) / viewport.height
+        }
+        return { u, v }
+    }
+
     private isVisible(target: Object3D) {
         let visible = true
         let object: Object3D | null = target;
@@ -315,6 +380,16 @@ export class ThreeInteraction {
 
 }
 
+/**
+ * Rectangle in fractions of an element, origin top-left
+ */
+export type ViewportRect = {
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+}
+
 export type InteractionFields = {
     cursor?: string,
 
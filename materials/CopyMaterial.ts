@@ -1,4 +1,4 @@
-import { DoubleSide, Texture, Uniform } from "three";
+import { DoubleSide, Matrix3, Texture, Uniform } from "three";
 import { RawShaderMaterial } from "./RawShaderMaterial.js";
 import { ShaderMaterial } from "./ShaderMaterial.js";
 import { RGBASwizzle } from "./Swizzle.js";
@@ -10,25 +10,34 @@ export class CopyMaterial extends ShaderMaterial<
 	{
 		source: Uniform<Texture | null>,
 		sourceMipmapLevel: Uniform<number>,
+		/** Maps the pass's 0-1 UV to the source UV, only applied when constructed with `uvTransform` */
+		uvTransform: Uniform<Matrix3>,
 	},
 	{
 		SWIZZLE: string,
+		UV_TRANSFORM: string,
 	}
 > {
 
-	constructor(swizzle: RGBASwizzle = '') {
+	constructor(swizzle: RGBASwizzle = '', uvTransform = false) {
 		super({
 			uniforms: {
 				source: new Uniform(null),
 				sourceMipmapLevel: new Uniform(0),
+				uvTransform: new Uniform(new Matrix3()),
 			},
 			defines: {
 				SWIZZLE: swizzle,
+				UV_TRANSFORM: uvTransform ? '1' : '0',
 			},
 			vertexShader: /*glsl*/`
+				uniform mat3 uvTransform;
 				varying vec2 vUv;
 				void main() {
 					vUv = position.xy * 0.5 + 0.5;
+					#if UV_TRANSFORM
+					vUv = (uvTransform * vec3(vUv, 1.)).xy;
+					#endif
 					gl_Position = vec4(position, 1.);
 				}
 			`,
@@ -53,12 +62,17 @@ export class CopyMaterial extends ShaderMaterial<
 		});
 	}
 
-	set(texture: Texture, sourceMipmapLevel: number, swizzle: RGBASwizzle = '') {
+	set(texture: Texture, sourceMipmapLevel: number, swizzle: RGBASwizzle = '', uvTransform: Matrix3 | null = null) {
 		this.uniforms.source.value = texture;
 		this.uniforms.sourceMipmapLevel.value = sourceMipmapLevel;
-		let definesChanged = this.defines.SWIZZLE !== swizzle;
+		if (uvTransform != null) {
+			this.uniforms.uvTransform.value.copy(uvTransform);
+		}
+		const uvTransformDefine = uvTransform != null ? '1' : '0';
+		let definesChanged = this.defines.SWIZZLE !== swizzle || this.defines.UV_TRANSFORM !== uvTransformDefine;
 		if (definesChanged) {
 			this.defines.SWIZZLE = swizzle;
+			this.defines.UV_TRANSFORM = uvTransformDefine;
 			this.needsUpdate = true;
 		}
 	}
@@ -72,26 +86,35 @@ export class RawCopyMaterial extends RawShaderMaterial<
 	{
 		source: Uniform<Texture | null>,
 		sourceMipmapLevel: Uniform<number>,
+		/** Maps the pass's 0-1 UV to the source UV, only applied when constructed with `uvTransform` */
+		uvTransform: Uniform<Matrix3>,
 	},
 	{
 		SWIZZLE: string,
+		UV_TRANSFORM: string,
 	}
 > {
 
-	constructor(swizzle: RGBASwizzle = '') {
+	constructor(swizzle: RGBASwizzle = '', uvTransform = false) {
 		super({
 			uniforms: {
 				source: new Uniform(null),
 				sourceMipmapLevel: new Uniform(0),
+				uvTransform: new Uniform(new Matrix3()),
 			},
 			defines: {
 				SWIZZLE: swizzle,
+				UV_TRANSFORM: uvTransform ? '1' : '0',
 			},
 			vertexShader: /*glsl*/`
 				attribute vec2 position;
+				uniform mat3 uvTransform;
 				varying vec2 vUv;
 				void main() {
 					vUv = position * 0.5 + 0.5;
+					#if UV_TRANSFORM
+					vUv = (uvTransform * vec3(vUv, 1.)).xy;
+					#endif
 					gl_Position = vec4(position, 0., 1.);
 				}
 			`,
@@ -111,12 +134,17 @@ export class RawCopyMaterial extends RawShaderMaterial<
 		});
 	}
 
-	set(texture: Texture, sourceMipmapLevel: number, swizzle: RGBASwizzle = '') {
+	set(texture: Texture, sourceMipmapLevel: number, swizzle: RGBASwizzle = '', uvTransform: Matrix3 | null = null) {
 		this.uniforms.source.value = texture;
 		this.uniforms.sourceMipmapLevel.value = sourceMipmapLevel;
-		let definesChanged = this.defines.SWIZZLE !== swizzle;
+		if (uvTransform != null) {
+			this.uniforms.uvTransform.value.copy(uvTransform);
+		}
+		const uvTransformDefine = uvTransform != null ? '1' : '0';
+		let definesChanged = this.defines.SWIZZLE !== swizzle || this.defines.UV_TRANSFORM !== uvTransformDefine;
 		if (definesChanged) {
 			this.defines.SWIZZLE = swizzle;
+			this.defines.UV_TRANSFORM = uvTransformDefine;
 			this.needsUpdate = true;
 		}
 	}
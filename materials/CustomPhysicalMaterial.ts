@@ -101,8 +101,11 @@ export class CustomPhysicalMaterial<UserUniforms extends { [uniform: string]: IU
 	public transparency: number;
 
 	protected _transmission: number = 0;
+	/**
+	 * Reads as 0 while `transmissionBackground` is set so three.js skips its built-in transmission pass
+	 */
 	public get transmission() {
-		return this._transmission;
+		return this._transmissionBackground != null ? 0 : this._transmission;
 	}
 	public set transmission(v: number) {
 		if ((this._transmission > 0) != (v > 0)) (this.version as number)++;
@@ -111,6 +114,48 @@ export class CustomPhysicalMaterial<UserUniforms extends { [uniform: string]: IU
 
 	public ior: number;
 
+	protected _transmissionBackground: { texture: Texture | null } | null = null;
+	/**
+	 * Mip-blurred background to refract instead of three.js' built-in transmission pass, usually a `TransmissionRenderer`
+	 *
+	 * Roughness selects the mip level and thickness offsets the refracted sample. `transmissionMap` and `thicknessMap` are not supported in this mode
+	 */
+	public get transmissionBackground() {
+		return this._transmissionBackground;
+	}
+	public set transmissionBackground(v: { texture: Texture | null } | null) {
+		if ((this._transmissionBackground != null) != (v != null)) {
+			if (v != null) {
+				this.defines.USE_TRANSMISSION = '';
+			} else {
+				delete this.defines.USE_TRANSMISSION;
+			}
+			this.needsUpdate = true;
+		}
+		this._transmissionBackground = v;
+	}
+
+	protected _ambientOcclusionBuffer: { texture: Texture | null } | null = null;
+	/**
+	 * Screen-space occlusion applied to indirect light, usually an `SSAOEffect` with `mode = 'material'`
+	 *
+	 * The texture is sampled at `gl_FragCoord` so it must match the size of the target the material renders into
+	 */
+	public get ambientOcclusionBuffer() {
+		return this._ambientOcclusionBuffer;
+	}
+	public set ambientOcclusionBuffer(v: { texture: Texture | null } | null) {
+		if ((this._ambientOcclusionBuffer != null) != (v != null)) {
+			if (v != null) {
+				this.defines.USE_SCREEN_SPACE_AO = '';
+			} else {
+				delete this.defines.USE_SCREEN_SPACE_AO;
+			}
+			this.needsUpdate = true;
+		}
+		this._ambientOcclusionBuffer = v;
+	}
+
 	protected _iridescence: number = 0;
 	public get iridescence() {
 		return this._iridescence;
@@ -169,9 +214,13 @@ export class CustomPhysicalMaterial<UserUniforms extends { [uniform: string]: IU
 			},
 			uniforms: {
 				...ShaderLib.physical.uniforms,
+				...createScreenSpaceAOUniforms(),
 				...parameters?.uniforms,
 			},
 		}
+		shaderMaterialParameters.fragmentShader = shaderMaterialParameters.fragmentShader
+			.replace('#include <aomap_pars_fragment>', `#include <aomap_pars_fragment>\n${screenSpaceAOParsFragment}`)
+			.replace('#include <aomap_fragment>', `#include <aomap_fragment>\n${screenSpaceAOFragment}`);
 		super(shaderMaterialParameters);
 
 		// keep typescript happy
@@ -243,9 +292,51 @@ export class CustomPhysicalMaterial<UserUniforms extends { [uniform: string]: IU
 		this.isMeshPhysicalMaterial = true;
 		this.isInitialized = true;
 
+		// screen-space AO uniforms are ours, and three.js only uploads transmission uniforms when it runs its own transmission pass
+		// onBeforeRender is an accessor so assigning a user hook chains it after the upload rather than replacing it
+		// Using Object.defineProperty because TypeScript doesn't allow class accessor to override method.
+		let userOnBeforeRender: ShaderMaterial['onBeforeRender'] | null = null;
+		const onBeforeRender: ShaderMaterial['onBeforeRender'] = (renderer, scene, camera, geometry, object, group) => {
+			this.updateRenderUniforms();
+			userOnBeforeRender?.call(this, renderer, scene, camera, geometry, object, group);
+		}
+		Object.defineProperty(this, 'onBeforeRender', {
+			get: () => onBeforeRender,
+			set: (hook: ShaderMaterial['onBeforeRender'] | null | undefined) => {
+				userOnBeforeRender = hook === onBeforeRender ? null : hook ?? null;
+			},
+			configurable: true,
+		});
+
 		this.setValues(shaderMaterialParameters);
 	}
 
+	/**
+	 * Uploads uniforms three.js doesn't manage for us, called before each draw ahead of any user `onBeforeRender` hook
+	 */
+	protected updateRenderUniforms() {
+		const uniforms = this.uniforms as typeof ShaderLib.physical.uniforms;
+
+		const occlusion = this._ambientOcclusionBuffer;
+		if (occlusion != null) {
+			const texture = occlusion.texture;
+			const image = texture?.image as { width: number, height: number } | undefined;
+			uniforms.screenSpaceAOMap.value = texture;
+			uniforms.screenSpaceAOSize.value.set(image?.width ?? 1, image?.height ?? 1);
+		}
+
+		const background = this._transmissionBackground;
+		if (background == null) return;
+		const texture = background.texture;
+		const image = texture?.image as { width: number, height: number } | undefined;
+		uniforms.transmission.value = this._transmission;
+		uniforms.transmissionSamplerMap.value = texture;
+		uniforms.transmissionSamplerSize.value.set(image?.width ?? 1, image?.height ?? 1);
+		uniforms.thickness.value = this.thickness;
+		uniforms.attenuationDistance.value = this.attenuationDistance;
+		uniforms.attenuationColor.value.copy(this.attenuationColor);
+	}
+
 	override setValues(parameters:ShaderMaterialParameters) {
 		// fix "is not a property of this material" by defining null values initially
 		if (!this.isInitialized) {
@@ -259,6 +350,41 @@ export class CustomPhysicalMaterial<UserUniforms extends { [uniform: string]: IU
 
 }
 
+function createScreenSpaceAOUniforms(): { [uniform: string]: IUniform } {
+	return {
+		screenSpaceAOMap: new Uniform<Texture | null>(null),
+		screenSpaceAOSize: new Uniform(new Vector2(1, 1)),
+	};
+}
+
+const screenSpaceAOParsFragment = /*glsl*/`
+#ifdef USE_SCREEN_SPACE_AO
+	uniform sampler2D screenSpaceAOMap;
+	uniform vec2 screenSpaceAOSize;
+#endif
+`;
+
+// matches aomap_fragment
+const screenSpaceAOFragment = /*glsl*/`
+#ifdef USE_SCREEN_SPACE_AO
+	float screenSpaceAO = texture2D( screenSpaceAOMap, gl_FragCoord.xy / screenSpaceAOSize ).r;
+
+	reflectedLight.indirectDiffuse *= screenSpaceAO;
+
+	#if defined( USE_CLEARCOAT )
+		clearcoatSpecularIndirect *= screenSpaceAO;
+	#endif
+
+	#if defined( USE_SHEEN )
+		sheenSpecularIndirect *= screenSpaceAO;
+	#endif
+
+	#if defined( USE_ENVMAP ) && defined( STANDARD )
+		reflectedLight.indirectSpecular *= computeSpecularOcclusion( saturate( dot( geometryNormal, geometryViewDir ) ), screenSpaceAO, material.roughness );
+	#endif
+#endif
+`;
+
 function clamp(v: number, min: number, max: number) {
 	return v < min ? min : (v > max ? max : v);
 }
\ No newline at end of file
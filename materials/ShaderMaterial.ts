@@ -3,6 +3,7 @@
  */
 
 import { IUniform, ShaderMaterial as ShaderMaterialBase, ShaderMaterialParameters } from "three";
+import { injectUniformDeclarations } from "./UniformDeclarations.js";
 
 type UniformsRecord = Record<string, IUniform<any>>;
 type DefinesRecord = Record<string, string>;
@@ -18,7 +19,21 @@ export class ShaderMaterial<
   constructor(parameters: Omit<ShaderMaterialParameters, 'uniforms' | 'defines'> & {
     uniforms: U,
     defines?: D,
+    /**
+     * Prepend `uniform` declarations inferred from the initial uniform values to both shaders.
+     * Uniforms already declared in a shader or whose type can't be inferred (e.g. null textures) are skipped
+     */
+    declareUniforms?: boolean,
   }) {
-    super(parameters);
+    const { declareUniforms, ...materialParameters } = parameters;
+    if (declareUniforms) {
+      if (materialParameters.vertexShader != null) {
+        materialParameters.vertexShader = injectUniformDeclarations(materialParameters.vertexShader, parameters.uniforms);
+      }
+      if (materialParameters.fragmentShader != null) {
+        materialParameters.fragmentShader = injectUniformDeclarations(materialParameters.fragmentShader, parameters.uniforms);
+      }
+    }
+    super(materialParameters);
   }
-}
\ No newline at end of file
+}
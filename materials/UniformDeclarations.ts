@@ -0,0 +1,89 @@
+import { ByteType, Color, CubeTexture, Data3DTexture, DataArrayTexture, IntType, IUniform, Matrix3, Matrix4, Quaternion, RedIntegerFormat, RGBAIntegerFormat, RGIntegerFormat, ShortType, Texture, UnsignedByteType, UnsignedIntType, UnsignedShortType, Vector2, Vector3, Vector4 } from "three";
+
+/**
+ * GLSL type of a uniform value, or null if it can't be inferred (e.g. a null texture)
+ *
+ * Numbers are always `float`; declare `int` uniforms yourself
+ */
+export function getUniformGLSLType(value: unknown): string | null {
+	if (typeof value === 'number') return 'float';
+	if (typeof value === 'boolean') return 'bool';
+	if (value instanceof Vector2) return 'vec2';
+	if (value instanceof Vector3) return 'vec3';
+	if (value instanceof Color) return 'vec3';
+	if (value instanceof Vector4) return 'vec4';
+	if (value instanceof Quaternion) return 'vec4';
+	if (value instanceof Matrix3) return 'mat3';
+	if (value instanceof Matrix4) return 'mat4';
+	if (value instanceof Texture) return getSamplerType(value);
+	return null;
+}
+
+/**
+ * `uniform` declarations for every uniform whose type can be inferred
+ *
+ * Uniforms already declared in `existingSource` are skipped so hand-written declarations take precedence
+ */
+export function generateUniformDeclarations(uniforms: Record<string, IUniform>, existingSource = ''): string {
+	const lines = new Array<string>();
+	for (let name in uniforms) {
+		if (isUniformDeclared(existingSource, name)) continue;
+		const declaration = getUniformDeclaration(name, uniforms[name].value);
+		if (declaration != null) {
+			lines.push(declaration);
+		}
+	}
+	return lines.join('\n');
+}
+
+/**
+ * Prepend inferred uniform declarations to a shader source, after any `#version` directive
+ */
+export function injectUniformDeclarations(source: string, uniforms: Record<string, IUniform>): string {
+	const declarations = generateUniformDeclarations(uniforms, source);
+	if (declarations.length === 0) return source;
+	const version = source.match(/^\s*#version[^\n]*\n/);
+	if (version != null) {
+		return version[0] + declarations + '\n' + source.slice(version[0].length);
+	}
+	return declarations + '\n' + source;
+}
+
+/**
+ * Identifies the declarations generated for a set of uniform values, changes when a uniform is added, removed or changes type
+ */
+export function getUniformSignature(values: Record<string, unknown>): string {
+	return Object.keys(values).sort().map(name => `${name}:${getArrayAwareType(values[name])}`).join(',');
+}
+
+function getUniformDeclaration(name: string, value: unknown): string | null {
+	if (Array.isArray(value)) {
+		const type = value.length > 0 ? getUniformGLSLType(value[0]) : null;
+		return type != null ? `uniform ${type} ${name}[${value.length}];` : null;
+	}
+	const type = getUniformGLSLType(value);
+	return type != null ? `uniform ${type} ${name};` : null;
+}
+
+function getArrayAwareType(value: unknown): string | null {
+	if (Array.isArray(value)) {
+		return value.length > 0 ? `${getUniformGLSLType(value[0])}[${value.length}]` : null;
+	}
+	return getUniformGLSLType(value);
+}
+
+function isUniformDeclared(source: string, name: string) {
+	return new RegExp(`\\buniform\\s+(?:(?:highp|mediump|lowp)\\s+)?\\w+\\s+${name}\\b`).test(source);
+}
+
+function getSamplerType(texture: Texture) {
+	const integer = texture.format === RedIntegerFormat || texture.format === RGIntegerFormat || texture.format === RGBAIntegerFormat;
+	const unsigned = texture.type === UnsignedIntType || texture.type === UnsignedShortType || texture.type === UnsignedByteType;
+	const signed = texture.type === IntType || texture.type === ShortType || texture.type === ByteType;
+	const prefix = integer && unsigned ? 'u' : integer && signed ? 'i' : '';
+
+	if ((texture as Data3DTexture).isData3DTexture) return `${prefix}sampler3D`;
+	if ((texture as DataArrayTexture).isDataArrayTexture) return `${prefix}sampler2DArray`;
+	if ((texture as CubeTexture).isCubeTexture) return `${prefix}samplerCube`;
+	return `${prefix}sampler2D`;
+}
@@ -0,0 +1,131 @@
+/**
+ * Tests for uniform declaration inference
+ * Run with: npx tsx materials/tests/UniformDeclarations.test.ts
+ */
+
+import { Color, CubeTexture, Data3DTexture, DataArrayTexture, DataTexture, IntType, Matrix3, Matrix4, Quaternion, RedIntegerFormat, RGBAFormat, RGBAIntegerFormat, Texture, Uniform, UnsignedIntType, Vector2, Vector3, Vector4 } from 'three';
+import { getUniformGLSLType, getUniformSignature, injectUniformDeclarations } from '../UniformDeclarations.js';
+
+function assertEqual<T>(actual: T, expected: T, message: string) {
+    if (actual !== expected) {
+        throw new Error(`${message}: expected ${expected}, got ${actual}`);
+    }
+}
+
+// Test 1: value types map to GLSL types
+function testValueTypes() {
+    console.log('Test 1: value types are inferred');
+
+    assertEqual(getUniformGLSLType(1), 'float', 'Integer valued number');
+    assertEqual(getUniformGLSLType(0.5), 'float', 'Number');
+    assertEqual(getUniformGLSLType(true), 'bool', 'Boolean');
+    assertEqual(getUniformGLSLType(new Vector2()), 'vec2', 'Vector2');
+    assertEqual(getUniformGLSLType(new Vector3()), 'vec3', 'Vector3');
+    assertEqual(getUniformGLSLType(new Color()), 'vec3', 'Color');
+    assertEqual(getUniformGLSLType(new Vector4()), 'vec4', 'Vector4');
+    assertEqual(getUniformGLSLType(new Quaternion()), 'vec4', 'Quaternion');
+    assertEqual(getUniformGLSLType(new Matrix3()), 'mat3', 'Matrix3');
+    assertEqual(getUniformGLSLType(new Matrix4()), 'mat4', 'Matrix4');
+    assertEqual(getUniformGLSLType(null), null, 'Null texture');
+    assertEqual(getUniformGLSLType('text'), null, 'Unsupported value');
+
+    console.log('  ✓ Passed\n');
+}
+
+// Test 2: sampler type follows the texture's dimension and integer format
+function testSamplerTypes() {
+    console.log('Test 2: sampler types are inferred from textures');
+
+    assertEqual(getUniformGLSLType(new Texture()), 'sampler2D', 'Texture');
+    assertEqual(getUniformGLSLType(new DataTexture(null, 1, 1, RGBAFormat)), 'sampler2D', 'DataTexture');
+    assertEqual(getUniformGLSLType(new Data3DTexture()), 'sampler3D', 'Data3DTexture');
+    assertEqual(getUniformGLSLType(new DataArrayTexture()), 'sampler2DArray', 'DataArrayTexture');
+    assertEqual(getUniformGLSLType(new CubeTexture()), 'samplerCube', 'CubeTexture');
+    assertEqual(getUniformGLSLType(new DataTexture(null, 1, 1, RGBAIntegerFormat, UnsignedIntType)), 'usampler2D', 'Unsigned integer texture');
+    assertEqual(getUniformGLSLType(new DataTexture(null, 1, 1, RedIntegerFormat, IntType)), 'isampler2D', 'Signed integer texture');
+    assertEqual(getUniformGLSLType(new DataTexture(null, 1, 1, RGBAFormat, UnsignedIntType)), 'sampler2D', 'Unsigned non-integer format');
+
+    const integerArray = new DataArrayTexture();
+    integerArray.format = RGBAIntegerFormat;
+    integerArray.type = UnsignedIntType;
+    assertEqual(getUniformGLSLType(integerArray), 'usampler2DArray', 'Unsigned integer array texture');
+
+    console.log('  ✓ Passed\n');
+}
+
+// Test 3: declarations are injected after #version, skipping uniforms the source declares
+function testInjection() {
+    console.log('Test 3: declarations are injected without duplicating existing ones');
+
+    const uniforms = {
+        time: new Uniform(0),
+        count: new Uniform(4),
+        tint: new Uniform(new Color()),
+        weights: new Uniform([0.25, 0.5, 0.25]),
+        empty: new Uniform([]),
+        map: new Uniform<Texture | null>(null),
+    };
+
+    const source = 'void main() {}';
+    assertEqual(
+        injectUniformDeclarations(source, uniforms),
+        'uniform float time;\nuniform float count;\nuniform vec3 tint;\nuniform float weights[3];\nvoid main() {}',
+        'Inferred declarations',
+    );
+
+    // ints must be declared by hand and the hand-written declaration wins
+    const declaredSource = '#version 300 es\nuniform highp int count;\nuniform vec3 tint; // linear\nvoid main() {}';
+    assertEqual(
+        injectUniformDeclarations(declaredSource, uniforms),
+        '#version 300 es\nuniform float time;\nuniform float weights[3];\nuniform highp int count;\nuniform vec3 tint; // linear\nvoid main() {}',
+        'Declared uniforms are skipped',
+    );
+
+    // names that only share a prefix are not treated as declared
+    assertEqual(
+        injectUniformDeclarations('uniform float timeScale;', { time: new Uniform(0) }),
+        'uniform float time;\nuniform float timeScale;',
+        'Prefix of a declared name',
+    );
+
+    const complete = 'uniform float time;';
+    assertEqual(injectUniformDeclarations(complete, { time: new Uniform(0) }), complete, 'Nothing to inject');
+
+    console.log('  ✓ Passed\n');
+}
+
+// Test 4: signatures change with the generated declarations only
+function testSignature() {
+    console.log('Test 4: signatures track names and types');
+
+    const signature = getUniformSignature({ b: 1, a: new Vector3() });
+    assertEqual(signature, 'a:vec3,b:float', 'Sorted by name');
+    assertEqual(getUniformSignature({ a: new Vector3(1, 2, 3), b: 2 }), signature, 'Values and key order are ignored');
+    assertEqual(getUniformSignature({ a: new Vector4(), b: 1 }) === signature, false, 'Type change');
+    assertEqual(getUniformSignature({ a: new Vector3() }) === signature, false, 'Removed uniform');
+    assertEqual(getUniformSignature({ w: [1, 2] }), 'w:float[2]', 'Array');
+    assertEqual(getUniformSignature({ w: [1, 2, 3] }) === getUniformSignature({ w: [1, 2] }), false, 'Array length change');
+    assertEqual(getUniformSignature({ m: null }), 'm:null', 'Uninferable value');
+    assertEqual(getUniformSignature({ m: new Texture() }), 'm:sampler2D', 'Texture');
+
+    console.log('  ✓ Passed\n');
+}
+
+// Run all tests
+function runTests() {
+    console.log('=== UniformDeclarations Tests ===\n');
+
+    try {
+        testValueTypes();
+        testSamplerTypes();
+        testInjection();
+        testSignature();
+
+        console.log('=== All tests passed! ===');
+    } catch (e) {
+        console.error('TEST FAILED:', e);
+        process.exit(1);
+    }
+}
+
+runTests();
@@ -263,6 +263,20 @@ export class OrthoPerspectiveCamera extends PerspectiveCamera {
         e[14] = B;
         e[15] = 1 - t;
 
+        // View offset (setViewOffset): scale and shift clip space so the sub-rectangle fills the viewport
+        if (this.view !== null && this.view.enabled) {
+            const { fullWidth, fullHeight, offsetX, offsetY, width, height } = this.view;
+            const sx = fullWidth / width;
+            const sy = fullHeight / height;
+            const tx = (fullWidth - 2 * offsetX - width) / width;
+            const ty = (2 * offsetY + height - fullHeight) / height;
+            for (let c = 0; c < 4; c++) {
+                const w = e[c * 4 + 3];
+                e[c * 4 + 0] = sx * e[c * 4 + 0] + tx * w;
+                e[c * 4 + 1] = sy * e[c * 4 + 1] + ty * w;
+            }
+        }
+
         this.projectionMatrixInverse.copy(this.projectionMatrix).invert();
     }
 
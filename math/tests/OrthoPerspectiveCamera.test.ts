@@ -269,24 +269,72 @@ function testIntermediateBlends() {
     console.log('  ✓ Passed\n');
 }
 
+// Test 8: setViewOffset crops the blended projection like it does a PerspectiveCamera
+function testViewOffset() {
+    console.log('Test 8: setViewOffset selects a sub-rectangle of the blended view');
+
+    const fullWidth = 1600, fullHeight = 900;
+    const camera = new OrthoPerspectiveCamera(50, fullWidth / fullHeight, 0.1, 100, 0.5, 10);
+    const full = camera.projectionMatrix.clone();
+
+    // top-right quarter
+    const offsetX = 800, offsetY = 0, width = 800, height = 450;
+    camera.setViewOffset(fullWidth, fullHeight, offsetX, offsetY, width, height);
+
+    const points = [new Vector3(0, 0, -10), new Vector3(2, 1, -5), new Vector3(-3, -2, -20)];
+    for (const point of points) {
+        const fullNDC = projectPointNDC(full, point);
+        const viewNDC = projectPointNDC(camera.projectionMatrix, point);
+
+        // full frame pixel position, y down
+        const px = (fullNDC.x * 0.5 + 0.5) * fullWidth;
+        const py = (0.5 - fullNDC.y * 0.5) * fullHeight;
+        const expectedX = ((px - offsetX) / width) * 2 - 1;
+        const expectedY = 1 - ((py - offsetY) / height) * 2;
+
+        assertClose(viewNDC.x, expectedX, 'View NDC x');
+        assertClose(viewNDC.y, expectedY, 'View NDC y');
+        assertClose(viewNDC.z, fullNDC.z, 'View NDC z');
+    }
+
+    camera.clearViewOffset();
+    for (let i = 0; i < 16; i++) {
+        assertClose(camera.projectionMatrix.elements[i], full.elements[i], `Cleared view offset element ${i}`);
+    }
+
+    console.log('  ✓ Passed\n');
+}
+
 // Run all tests
 function runTests() {
     console.log('=== OrthoPerspectiveCamera Tests ===\n');
 
-    try {
-        testPerspectiveMatch();
-        testOrthographicMatch();
-        testFocusDistanceInvariance();
-        testProjectionMatrixBlendEncoding();
-        testCloneAndCopy();
-        testOrthographicConversion();
-        testIntermediateBlends();
-
-        console.log('=== All tests passed! ===');
-    } catch (e) {
-        console.error('TEST FAILED:', e);
+    // run every test so one failure doesn't hide the rest
+    const tests = [
+        testPerspectiveMatch,
+        testOrthographicMatch,
+        testFocusDistanceInvariance,
+        testProjectionMatrixBlendEncoding,
+        testCloneAndCopy,
+        testOrthographicConversion,
+        testIntermediateBlends,
+        testViewOffset,
+    ];
+    const failed = new Array<string>();
+    for (let test of tests) {
+        try {
+            test();
+        } catch (e) {
+            console.error('TEST FAILED:', e, '\n');
+            failed.push(test.name);
+        }
+    }
+
+    if (failed.length > 0) {
+        console.error(`=== ${failed.length} of ${tests.length} tests failed: ${failed.join(', ')} ===`);
         process.exit(1);
     }
+    console.log('=== All tests passed! ===');
 }
 
 runTests();
@@ -0,0 +1,190 @@
+import { DataTexture, NearestFilter, RepeatWrapping, RGBAFormat, UnsignedByteType } from "three";
+import { Xoshiro128 } from "./Xoshiro128.js";
+
+/**
+ * Tileable blue noise generated with the void-and-cluster method
+ *
+ * Generation is O(size⁴), a 64x64 channel takes 150-300ms depending on the device so an RGBA texture takes around a second.
+ * Textures are generated in short time slices between frames and cached; until a texture is ready it holds white noise
+ */
+export class BlueNoise {
+
+	static textures = new Map<string, DataTexture>();
+	static pending = new Map<string, Promise<DataTexture>>();
+
+	/** Time spent generating per slice before yielding to the page */
+	static sliceBudget_ms = 4;
+
+	/**
+	 * RGBA texture with independent blue noise in each channel, repeat wrapping and nearest filtering
+	 *
+	 * Returns immediately: the texture starts as white noise and is replaced with blue noise once generation completes, use `getTextureAsync()` to wait for it
+	 */
+	static getTexture(size = 64, seed = 'blue-noise'): DataTexture {
+		const key = `${size}:${seed}`;
+		let texture = BlueNoise.textures.get(key);
+		if (texture == null) {
+			const data = new Uint8Array(size * size * 4);
+			const random = new Xoshiro128(`${seed}:white`);
+			for (let i = 0; i < data.length; i++) {
+				data[i] = Math.floor(random.random() * 256);
+			}
+			texture = new DataTexture(data, size, size, RGBAFormat, UnsignedByteType);
+			texture.wrapS = RepeatWrapping;
+			texture.wrapT = RepeatWrapping;
+			texture.magFilter = NearestFilter;
+			texture.minFilter = NearestFilter;
+			texture.generateMipmaps = false;
+			texture.needsUpdate = true;
+			BlueNoise.textures.set(key, texture);
+			BlueNoise.pending.set(key, BlueNoise.fillTexture(texture, size, seed).finally(() => BlueNoise.pending.delete(key)));
+		}
+		return texture;
+	}
+
+	/**
+	 * Resolves with the texture from `getTexture()` once it holds blue noise
+	 */
+	static getTextureAsync(size = 64, seed = 'blue-noise'): Promise<DataTexture> {
+		const texture = BlueNoise.getTexture(size, seed);
+		return BlueNoise.pending.get(`${size}:${seed}`) ?? Promise.resolve(texture);
+	}
+
+	protected static async fillTexture(texture: DataTexture, size: number, seed: string) {
+		const data = texture.image.data as Uint8Array;
+		for (let c = 0; c < 4; c++) {
+			const steps = BlueNoise.generateSteps(size, `${seed}:${c}`);
+			let step = steps.next();
+			while (!step.done) {
+				await new Promise(resolve => setTimeout(resolve, 0));
+				const start_ms = performance.now();
+				while (!step.done && performance.now() - start_ms < BlueNoise.sliceBudget_ms) {
+					step = steps.next();
+				}
+			}
+			const ranks = step.value;
+			for (let i = 0; i < ranks.length; i++) {
+				data[i * 4 + c] = Math.floor(ranks[i] * 256);
+			}
+		}
+		texture.needsUpdate = true;
+		return texture;
+	}
+
+	/**
+	 * Returns `size * size` values uniformly distributed in [0, 1) with blue noise spatial distribution, row-major
+	 */
+	static generate(size: number, seed?: string, sigma = 1.5): Float32Array {
+		const steps = BlueNoise.generateSteps(size, seed, sigma);
+		let step = steps.next();
+		while (!step.done) step = steps.next();
+		return step.value;
+	}
+
+	/**
+	 * `generate()` as a generator that yields periodically so the work can be spread across frames
+	 */
+	static *generateSteps(size: number, seed?: string, sigma = 1.5): Generator<void, Float32Array, void> {
+		const n = size * size;
+		const random = new Xoshiro128(seed);
+
+		// toroidal gaussian energy kernel indexed by wrapped offset
+		const kernel = new Float32Array(n);
+		for (let y = 0; y < size; y++) {
+			for (let x = 0; x < size; x++) {
+				const dx = Math.min(x, size - x);
+				const dy = Math.min(y, size - y);
+				kernel[y * size + x] = Math.exp(-(dx * dx + dy * dy) / (2 * sigma * sigma));
+			}
+		}
+
+		const pattern = new Uint8Array(n);
+		const energy = new Float32Array(n);
+
+		const splat = (p: number, sign: number) => {
+			const px = p % size;
+			const py = (p - px) / size;
+			for (let y = 0; y < size; y++) {
+				const ky = ((y - py + size) % size) * size;
+				const row = y * size;
+				for (let x = 0; x < size; x++) {
+					energy[row + x] += sign * kernel[ky + (x - px + size) % size];
+				}
+			}
+		};
+
+		const tightestCluster = () => {
+			let best = -1;
+			for (let i = 0; i < n; i++) {
+				if (pattern[i] === 1 && (best === -1 || energy[i] > energy[best])) best = i;
+			}
+			return best;
+		};
+
+		const largestVoid = () => {
+			let best = -1;
+			for (let i = 0; i < n; i++) {
+				if (pattern[i] === 0 && (best === -1 || energy[i] < energy[best])) best = i;
+			}
+			return best;
+		};
+
+		// initial binary pattern, ~10% random points
+		const initialCount = Math.max(1, Math.floor(n / 10));
+		let placed = 0;
+		while (placed < initialCount) {
+			const p = Math.floor(random.random() * n);
+			if (pattern[p] === 0) {
+				pattern[p] = 1;
+				splat(p, 1);
+				placed++;
+			}
+		}
+
+		// each step is O(n), yield often enough to keep slices short
+		const yieldInterval = 32;
+
+		// move points from clusters to voids until stable
+		for (let iteration = 0; iteration < n; iteration++) {
+			const cluster = tightestCluster();
+			pattern[cluster] = 0;
+			splat(cluster, -1);
+			const hole = largestVoid();
+			pattern[hole] = 1;
+			splat(hole, 1);
+			if (hole === cluster) break;
+			if (iteration % yieldInterval === 0) yield;
+		}
+
+		const prototype = pattern.slice();
+		const prototypeEnergy = energy.slice();
+		const ranks = new Uint32Array(n);
+
+		// phase 1: rank the prototype points by removing tightest clusters
+		for (let rank = initialCount - 1; rank >= 0; rank--) {
+			const cluster = tightestCluster();
+			pattern[cluster] = 0;
+			splat(cluster, -1);
+			ranks[cluster] = rank;
+			if (rank % yieldInterval === 0) yield;
+		}
+
+		// phase 2 & 3: fill the largest voids
+		pattern.set(prototype);
+		energy.set(prototypeEnergy);
+		for (let rank = initialCount; rank < n; rank++) {
+			const hole = largestVoid();
+			pattern[hole] = 1;
+			splat(hole, 1);
+			ranks[hole] = rank;
+			if (rank % yieldInterval === 0) yield;
+		}
+
+		const result = new Float32Array(n);
+		for (let i = 0; i < n; i++) {
+			result[i] = ranks[i] / n;
+		}
+		return result;
+	}
+
+}
@@ -1,44 +1,7 @@
 import { MutableRefObject, useLayoutEffect, useState } from "react";
+import { getViewportIntersection, ViewportIntersectionInfo } from "../utils/ViewportIntersection.js";
 
-export type ViewportIntersectionInfo = {
-  /**
-   * Fraction of the element that is visible in the viewport along the x-axis
-   */
-  visibleFractionX: number,
-  /**
-   * Fraction of the element that is visible in the viewport along the y-axis
-   */
-  visibleFractionY: number,
-  /**
-   * Fraction of the element that is visible in the viewport
-   */
-  visibleFraction: number,
-  /**
-   * like `visibleFractionX` but does not decrease as the element exits through the right of the viewport
-   * - <= 0 when the element is not visible
-   * - \>= 1 when the element is fully visible
-   */
-  visibleFractionXProgressive: number,
-  /**
-   * like `visibleFractionY` but does not decrease as the element exits through the top of the viewport
-   * 
-   * - <= 0 when the element is not visible
-   * - \>= 1 when the element is fully visible
-   */
-  visibleFractionYProgressive: number,
-  /**
-   * like visibleFraction but only increases when the element is scrolled into view and does not decrease when the element is scrolled out of view
-   */
-  visibleFractionProgressive: number,
-  /**
-   * -1 if the center of the element is on the left half of the viewport
-   */
-  signX: number,
-  /**
-   * -1 if the center of the element is on the top half of the viewport
-   */
-  signY: number,
-};
+export type { ViewportIntersectionInfo };
 
 /**
  * Returns metrics about the intersection of the element with the viewport
@@ -50,38 +13,7 @@ export function useViewportIntersection(
   useLayoutEffect(() => {
     const onScroll = () => {
       if (!ref.current) return;
-      const rect = ref.current.getBoundingClientRect();
-
-      const viewportWidth = window.innerWidth;
-      const viewportHeight = window.innerHeight;
-
-      const visibleWidthProgressive = viewportWidth - rect.left;
-      const visibleHeightProgressive = viewportHeight - rect.top;
-      const visibleWidth = Math.max(0, Math.min(rect.right, viewportWidth) - Math.max(rect.left, 0));
-      const visibleHeight = Math.max(0, Math.min(rect.bottom, viewportHeight) - Math.max(rect.top, 0));
-
-      const totalWidth = rect.width;
-      const totalHeight = rect.height;
-
-      const visibleFractionX = (visibleWidth / totalWidth);
-      const visibleFractionY = (visibleHeight / totalHeight);
-
-      const visibleFractionXProgressive = (visibleWidthProgressive / totalWidth);
-      const visibleFractionYProgressive = (visibleHeightProgressive / totalHeight);
-
-      const signX = ((rect.left + rect.width / 2) < (viewportWidth / 2) ? -1 : 1);
-      const signY = ((rect.top + rect.height / 2) < (viewportHeight / 2) ? -1 : 1);
-
-      onChange({
-        visibleFractionX,
-        visibleFractionY,
-        visibleFraction: Math.min(visibleFractionX, visibleFractionY),
-        visibleFractionXProgressive,
-        visibleFractionYProgressive,
-        visibleFractionProgressive: Math.min(visibleFractionXProgressive, visibleFractionYProgressive),
-        signX,
-        signY,
-      });
+      onChange(getViewportIntersection(ref.current.getBoundingClientRect(), window.innerWidth, window.innerHeight));
     };
 
     window.addEventListener('scroll', onScroll);
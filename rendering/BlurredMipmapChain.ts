@@ -5,6 +5,11 @@ import { Rendering } from "./Rendering.js";
 import RenderTargetStore from "./RenderTargetStore.js";
 import { LinearFilter, LinearMipmapNearestFilter, PixelFormat, WebGLRenderer, WebGLRenderTarget } from "three";
 
+/**
+ * Fills `target`'s mipmap chain with progressively blurred copies of level 0
+ *
+ * Returns the highest level written, generation stops once either side reaches 1px so on non-square targets the last levels of the chain are left untouched
+ */
 export function generateBlurredMipmaps(
     renderer: WebGLRenderer, 
     options: {
@@ -45,9 +50,7 @@ export function generateBlurredMipmaps(
 
     const gl = renderer.getContext();
 
-    if (restoreGlobalState) {
-        Rendering.saveGlobalState(renderer);
-    }
+    const stateDepth = restoreGlobalState ? Rendering.pushState(renderer) : -1;
 
     const sourceTexture = target.texture;
     let width = target.width;
@@ -107,6 +110,8 @@ export function generateBlurredMipmaps(
     }
 
     if (restoreGlobalState) {
-        Rendering.restoreGlobalState(renderer);
+        Rendering.popState(renderer, stateDepth);
     }
+
+    return i - 1;
 }
\ No newline at end of file
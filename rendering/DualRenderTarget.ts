@@ -40,7 +40,7 @@ export class DualRenderTarget {
         var bNew = new WebGLRenderTarget(newWidth, newHeight, this.options);
 
         // copy content to new texture (following whatever filtering params the textures use)
-        Rendering.saveGlobalState(this.renderer);
+        const stateDepth = Rendering.pushState(this.renderer);
         Rendering.blit(this.renderer, {
             restoreGlobalState: false,
             source: this.a.texture,
@@ -51,7 +51,7 @@ export class DualRenderTarget {
             source: this.b.texture,
             target: bNew,
         });
-        Rendering.restoreGlobalState(this.renderer);
+        Rendering.popState(this.renderer, stateDepth);
 
         this.a.dispose();
         this.b.dispose();
@@ -65,6 +65,17 @@ export class DualRenderTarget {
         this._height = newHeight;
     }
 
+    /**
+     * Replace both targets with new ones of the same size and options, contents are lost. Used after a WebGL context restore
+     */
+    reallocate() {
+        this.a.dispose();
+        this.b.dispose();
+        this.a = new WebGLRenderTarget(this._width, this._height, this.options);
+        this.b = new WebGLRenderTarget(this._width, this._height, this.options);
+        this.uniform.value = this.b.texture;
+    }
+
     swap() {
         var t = this.a;
         this.a = this.b;
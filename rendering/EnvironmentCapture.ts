@@ -0,0 +1,188 @@
+import { CubeCamera, HalfFloatType, Layers, LinearFilter, Mesh, PerspectiveCamera, PMREMGenerator, Scene, TextureDataType, Vector3, WebGLCoordinateSystem, WebGLCubeRenderTarget, WebGLRenderer, WebGLRenderTarget } from "three";
+import { Rendering } from "./Rendering.js";
+
+export type EnvironmentCaptureOptions = {
+	/** Edge of each cube face in pixels @default 256 */
+	resolution?: number,
+	/** @default HalfFloatType */
+	type?: TextureDataType,
+	/** @default 0.1 */
+	near?: number,
+	/** @default 1000 */
+	far?: number,
+};
+
+/**
+ * Renders the scene from a point into a cube map, for reflection probes and 360° panoramas
+ *
+ * The cube can be converted to an equirectangular image (three.js `EquirectangularReflectionMapping` layout), prefiltered with PMREM for `scene.environment` or read back as float data.
+ * Rendering is linear without tone mapping, as the viewer's scene pass
+ *
+ * @example
+ * ```typescript
+ * const capture = new EnvironmentCapture({ resolution: 512 });
+ * capture.renderCube(renderer, { scene, position: probe.position, restoreGlobalState: true });
+ * scene.environment = capture.toPMREM(renderer).texture;
+ * const panorama = await capture.readEquirectangular(renderer, { width: 2048 });
+ * ```
+ */
+export class EnvironmentCapture {
+
+	readonly cubeTarget: WebGLCubeRenderTarget;
+	/** Holds a camera per cube face, positioned by `renderCube()` */
+	readonly cubeCamera: CubeCamera;
+
+	protected equirectangularTarget: WebGLRenderTarget | null = null;
+	protected pmremTarget: WebGLRenderTarget | null = null;
+
+	constructor(options: EnvironmentCaptureOptions = {}) {
+		this.cubeTarget = new WebGLCubeRenderTarget(options.resolution ?? 256, {
+			type: options.type ?? HalfFloatType,
+			magFilter: LinearFilter,
+			minFilter: LinearFilter,
+			generateMipmaps: false,
+			depthBuffer: true,
+		});
+		this.cubeCamera = new CubeCamera(options.near ?? 0.1, options.far ?? 1000, this.cubeTarget);
+		this.cubeCamera.coordinateSystem = WebGLCoordinateSystem;
+		this.cubeCamera.updateCoordinateSystem();
+	}
+
+	/**
+	 * Render all six faces from `position`
+	 */
+	renderCube(renderer: WebGLRenderer, options: {
+		scene: Mesh | Scene,
+		position: Vector3,
+		layers?: Layers,
+		clearColor?: Rendering.RenderPassOptions['clearColor'],
+		restoreGlobalState: boolean,
+	}) {
+		const { cubeCamera, cubeTarget } = this;
+		cubeCamera.position.copy(options.position);
+		cubeCamera.updateMatrixWorld(true);
+
+		const stateDepth = options.restoreGlobalState ? Rendering.pushState(renderer) : -1;
+		try {
+			for (let face = 0; face < 6; face++) {
+				Rendering.renderPass(renderer, {
+					scene: options.scene,
+					camera: cubeCamera.children[face] as PerspectiveCamera,
+					target: cubeTarget,
+					targetCubeFace: face,
+					layers: options.layers,
+					clearColor: options.clearColor ?? { rgb: 0x000000, alpha: 1 },
+					clearDepth: true,
+					clearStencil: true,
+					restoreGlobalState: false,
+				});
+			}
+		} finally {
+			if (options.restoreGlobalState) {
+				Rendering.popState(renderer, stateDepth);
+			}
+		}
+
+		// three.js re-prefilters the cube if it's used directly as `scene.environment`
+		cubeTarget.texture.needsPMREMUpdate = true;
+		return cubeTarget;
+	}
+
+	/**
+	 * Convert the last cube to an equirectangular image, longitude along x and latitude along y
+	 *
+	 * The target is owned by the capture unless one is passed in
+	 */
+	toEquirectangular(renderer: WebGLRenderer, options: {
+		/** @default 4 × cube resolution */
+		width?: number,
+		/** @default width / 2 */
+		height?: number,
+		target?: WebGLRenderTarget,
+		restoreGlobalState?: boolean,
+	} = {}): WebGLRenderTarget {
+		let target = options.target;
+		if (target == null) {
+			const width = options.width ?? this.cubeTarget.width * 4;
+			const height = options.height ?? Math.floor(width / 2);
+			if (this.equirectangularTarget == null) {
+				this.equirectangularTarget = new WebGLRenderTarget(width, height, {
+					type: this.cubeTarget.texture.type,
+					magFilter: LinearFilter,
+					minFilter: LinearFilter,
+					depthBuffer: false,
+				});
+			} else if (this.equirectangularTarget.width !== width || this.equirectangularTarget.height !== height) {
+				this.equirectangularTarget.setSize(width, height);
+			}
+			target = this.equirectangularTarget;
+		}
+
+		Rendering.shaderPass(renderer, {
+			shaderKey: 'EnvironmentCapture.equirectangular',
+			target,
+			uniforms: {
+				cubeMap: this.cubeTarget.texture,
+			},
+			fragmentShader: /*glsl*/`
+				const float PI = 3.141592653589793;
+				void main() {
+					// inverse of three.js equirectUv()
+					float longitude = (vUv.x - 0.5) * 2.0 * PI;
+					float latitude = (vUv.y - 0.5) * PI;
+					vec3 direction = vec3(cos(longitude) * cos(latitude), sin(latitude), sin(longitude) * cos(latitude));
+					gl_FragColor = textureCube(cubeMap, direction);
+				}
+			`,
+			clearColor: false,
+			clearDepth: false,
+			restoreGlobalState: options.restoreGlobalState ?? true,
+		});
+
+		return target;
+	}
+
+	/**
+	 * Prefilter the last cube for image based lighting, use `.texture` as `scene.environment`
+	 *
+	 * The returned target is reused by later calls
+	 */
+	toPMREM(renderer: WebGLRenderer, pmremGenerator?: PMREMGenerator): WebGLRenderTarget {
+		const generator = pmremGenerator ?? new PMREMGenerator(renderer);
+		try {
+			this.pmremTarget = generator.fromCubemap(this.cubeTarget.texture, this.pmremTarget);
+		} finally {
+			if (pmremGenerator == null) {
+				generator.dispose();
+			}
+		}
+		return this.pmremTarget;
+	}
+
+	/**
+	 * Equirectangular RGBA float pixels of the last cube, rows bottom (south) to top (north)
+	 */
+	async readEquirectangular(renderer: WebGLRenderer, options: { width?: number, height?: number } = {}): Promise<{ width: number, height: number, data: Float32Array }> {
+		const target = this.toEquirectangular(renderer, { ...options, restoreGlobalState: true });
+		const pixels = await Rendering.readPixelsAsync(renderer, target);
+		const data = pixels instanceof Float32Array ? pixels : Float32Array.from(pixels);
+		return { width: target.width, height: target.height, data };
+	}
+
+	/**
+	 * Read one face of the last cube as RGBA float pixels
+	 */
+	async readFace(renderer: WebGLRenderer, face: number): Promise<Float32Array> {
+		const pixels = await Rendering.readPixelsAsync(renderer, this.cubeTarget, null, 0, { cubeFace: face });
+		return pixels instanceof Float32Array ? pixels : Float32Array.from(pixels);
+	}
+
+	dispose() {
+		this.cubeTarget.dispose();
+		this.equirectangularTarget?.dispose();
+		this.equirectangularTarget = null;
+		this.pmremTarget?.dispose();
+		this.pmremTarget = null;
+	}
+
+}
@@ -0,0 +1,312 @@
+import { ACESFilmicToneMapping, AgXToneMapping, CineonToneMapping, HalfFloatType, LinearFilter, LinearToneMapping, NeutralToneMapping, NoToneMapping, ReinhardToneMapping, Texture, ToneMapping, Uniform, UnsignedByteType, WebGLRenderTarget } from "three";
+import { ShaderMaterial } from "../materials/ShaderMaterial.js";
+import type { PhysicallyBasedViewer } from "../PhysicallyBasedViewer.js";
+import { WebMWriter, WebMVideoCodec } from "../utils/WebMWriter.js";
+import { Rendering } from "./Rendering.js";
+
+export type FrameCaptureOptions = {
+	width: number,
+	height: number,
+	/** @default 60 */
+	fps?: number,
+	/** `t_s` of the first frame passed to `frameUpdate` @default 0 */
+	startTime_s?: number,
+	/** MSAA samples of the scene target @default 4 */
+	msaaSamples?: number,
+};
+
+export type CapturedFrame = {
+	index: number,
+	t_s: number,
+	imageData: ImageData,
+};
+
+export type CaptureVideoCodec = 'vp8' | 'vp9' | 'av1' | 'avc';
+
+export type VideoEncodeOptions = {
+	/** `avc` (H.264) can't be stored in WebM, use `onEncodedChunk` to mux it into MP4 @default 'vp9' */
+	codec?: CaptureVideoCodec,
+	/** @default 20_000_000 */
+	bitrate?: number,
+	/** @default 2 */
+	keyFrameInterval_s?: number,
+	/** Every encoded chunk as it's produced, e.g. for an MP4 muxer */
+	onEncodedChunk?: (chunk: EncodedVideoChunk, metadata?: EncodedVideoChunkMetadata) => void,
+	onProgress?: (frameIndex: number, frameCount: number) => void,
+};
+
+/**
+ * Deterministic offline rendering of a `PhysicallyBasedViewer`
+ *
+ * Each frame advances time by exactly `1 / fps` (no clamping) and is rendered to a target at the capture resolution, independent of the canvas size.
+ * The viewer's rendering is suspended while the capture exists (its own animation loop, or a `SharedCanvas` skips it) and resumed by `dispose()`.
+ *
+ * three.js only tone maps when writing to the canvas, so the scene is rendered linear and the viewer's tone mapping (or the post-processing output effect's) and sRGB encoding are applied here.
+ *
+ * For audio-reactive scenes drive audio from `frameUpdate`'s `t_s` with an `OfflineAudioAnalysis` rather than a live `AudioContext`
+ */
+export class FrameCapture {
+
+	readonly viewer: PhysicallyBasedViewer<any>;
+	readonly width: number;
+	readonly height: number;
+	readonly fps: number;
+	readonly startTime_s: number;
+
+	/** Index of the next frame to capture, set to seek */
+	frameIndex = 0;
+
+	protected sceneTarget: WebGLRenderTarget;
+	protected outputTarget: WebGLRenderTarget;
+	protected outputMaterial = new CaptureOutputMaterial();
+	protected pngCanvas: OffscreenCanvas | null = null;
+	protected renderingSuspension: { resume: () => void };
+
+	constructor(viewer: PhysicallyBasedViewer<any>, options: FrameCaptureOptions) {
+		if (!(options.width > 0 && options.height > 0)) {
+			throw new Error(`FrameCapture: invalid size ${options.width}x${options.height}`);
+		}
+		this.viewer = viewer;
+		this.width = Math.floor(options.width);
+		this.height = Math.floor(options.height);
+		this.fps = options.fps ?? 60;
+		this.startTime_s = options.startTime_s ?? 0;
+
+		this.sceneTarget = new WebGLRenderTarget(this.width, this.height, {
+			type: HalfFloatType,
+			magFilter: LinearFilter,
+			minFilter: LinearFilter,
+			depthBuffer: true,
+			stencilBuffer: true,
+			samples: options.msaaSamples ?? 4,
+		});
+		this.outputTarget = new WebGLRenderTarget(this.width, this.height, {
+			type: UnsignedByteType,
+			depthBuffer: false,
+		});
+
+		this.renderingSuspension = viewer.suspendRendering();
+	}
+
+	get time_s() {
+		return this.startTime_s + this.frameIndex / this.fps;
+	}
+
+	/**
+	 * Render the next frame and read back its pixels, rows are top to bottom as in `ImageData`
+	 *
+	 * With `advance = false` the current frame is rendered again with `dt_s = 0` and the frame index is kept, e.g. to render tiles of one frame
+	 */
+	async captureFrame(advance = true): Promise<CapturedFrame> {
+		const { viewer, width, height } = this;
+		const renderer = viewer.renderer;
+		const index = this.frameIndex;
+		const t_s = this.time_s;
+
+		viewer.animationFrame(this.sceneTarget, viewer.camera, viewer.renderLayers, { t_s, dt_s: advance ? 1 / this.fps : 0 });
+
+		const output = viewer.postProcessing?.output;
+		const outputEnabled = output != null && viewer.postProcessing!.effects.includes(output) && output.enabled;
+		this.outputMaterial.setToneMapping(outputEnabled ? output.toneMapping ?? viewer.toneMapping : viewer.toneMapping);
+		this.outputMaterial.uniforms.source.value = this.sceneTarget.texture;
+		Rendering.shaderMaterialPass(renderer, {
+			shader: this.outputMaterial,
+			target: this.outputTarget,
+			toneMappingExposure: viewer.toneMappingExposure * (outputEnabled ? output.exposure : 1),
+			restoreGlobalState: true,
+		});
+
+		const pixels = await Rendering.readPixelsAsync(renderer, this.outputTarget) as Uint8Array;
+		if (advance) {
+			this.frameIndex++;
+		}
+
+		return {
+			index,
+			t_s,
+			imageData: new ImageData(new Uint8ClampedArray(pixels.buffer, pixels.byteOffset, pixels.byteLength), width, height),
+		};
+	}
+
+	async *frames(count: number): AsyncGenerator<CapturedFrame> {
+		for (let i = 0; i < count; i++) {
+			yield await this.captureFrame();
+		}
+	}
+
+	async *pngFrames(count: number): AsyncGenerator<{ index: number, t_s: number, png: Blob }> {
+		for await (let frame of this.frames(count)) {
+			yield { index: frame.index, t_s: frame.t_s, png: await this.toPNG(frame.imageData) };
+		}
+	}
+
+	toPNG(imageData: ImageData): Promise<Blob> {
+		if (this.pngCanvas == null) {
+			this.pngCanvas = new OffscreenCanvas(this.width, this.height);
+		}
+		const context = this.pngCanvas.getContext('2d')!;
+		context.putImageData(imageData, 0, 0);
+		return this.pngCanvas.convertToBlob({ type: 'image/png' });
+	}
+
+	/**
+	 * Capture `count` frames and encode them with WebCodecs
+	 *
+	 * @returns a WebM file, or null for `avc` which only reaches `onEncodedChunk`
+	 */
+	async encodeVideo(count: number, options: VideoEncodeOptions = {}): Promise<Blob | null> {
+		if (!FrameCapture.isVideoEncodingSupported()) {
+			throw new Error(`FrameCapture: WebCodecs VideoEncoder is not available`);
+		}
+
+		const codec = videoCodecs[options.codec ?? 'vp9'];
+		const config: VideoEncoderConfig = {
+			codec: codec.codec,
+			width: this.width,
+			height: this.height,
+			bitrate: options.bitrate ?? 20_000_000,
+			framerate: this.fps,
+			...(options.codec === 'avc' ? { avc: { format: 'avc' } } : {}),
+		};
+		const support = await VideoEncoder.isConfigSupported(config);
+		if (!support.supported) {
+			throw new Error(`FrameCapture: ${codec.codec} encoding at ${this.width}x${this.height} is not supported`);
+		}
+
+		const writer = codec.webm != null ? new WebMWriter({ codec: codec.webm, width: this.width, height: this.height }) : null;
+		let encodeError: unknown = null;
+		const encoder = new VideoEncoder({
+			output: (chunk, metadata) => {
+				const description = metadata?.decoderConfig?.description;
+				if (writer != null && description != null && writer.options.codecPrivate == null) {
+					writer.options.codecPrivate = ArrayBuffer.isView(description)
+						? new Uint8Array(description.buffer, description.byteOffset, description.byteLength).slice()
+						: new Uint8Array(description).slice();
+				}
+				if (writer != null) {
+					const data = new Uint8Array(chunk.byteLength);
+					chunk.copyTo(data);
+					writer.addFrame(data, chunk.timestamp, chunk.type === 'key', chunk.duration ?? undefined);
+				}
+				options.onEncodedChunk?.(chunk, metadata);
+			},
+			error: (e) => encodeError = e,
+		});
+		encoder.configure(config);
+
+		const keyFrameInterval = Math.max(1, Math.round((options.keyFrameInterval_s ?? 2) * this.fps));
+		const frameDuration_us = 1e6 / this.fps;
+
+		try {
+			for (let i = 0; i < count; i++) {
+				const { imageData } = await this.captureFrame();
+				const videoFrame = new VideoFrame(imageData.data, {
+					format: 'RGBA',
+					codedWidth: this.width,
+					codedHeight: this.height,
+					timestamp: Math.round(i * frameDuration_us),
+					duration: Math.round(frameDuration_us),
+				});
+				encoder.encode(videoFrame, { keyFrame: i % keyFrameInterval === 0 });
+				videoFrame.close();
+
+				// don't let rendering outrun the encoder
+				while (encoder.encodeQueueSize > 4 && encodeError == null) {
+					await new Promise(resolve => setTimeout(resolve, 1));
+				}
+				if (encodeError != null) throw encodeError;
+				options.onProgress?.(i, count);
+			}
+			await encoder.flush();
+		} finally {
+			if (encoder.state !== 'closed') {
+				encoder.close();
+			}
+		}
+
+		if (encodeError != null) throw encodeError;
+		return writer?.finalize() ?? null;
+	}
+
+	static isVideoEncodingSupported() {
+		return typeof VideoEncoder !== 'undefined' && typeof VideoFrame !== 'undefined';
+	}
+
+	dispose() {
+		this.sceneTarget.dispose();
+		this.outputTarget.dispose();
+		this.outputMaterial.dispose();
+		this.pngCanvas = null;
+		this.renderingSuspension.resume();
+	}
+
+}
+
+const videoCodecs: Record<CaptureVideoCodec, { codec: string, webm: WebMVideoCodec | null }> = {
+	vp8: { codec: 'vp8', webm: 'V_VP8' },
+	vp9: { codec: 'vp09.00.10.08', webm: 'V_VP9' },
+	av1: { codec: 'av01.0.04M.08', webm: 'V_AV1' },
+	avc: { codec: 'avc1.640028', webm: null },
+};
+
+const toneMappingFunctions: Partial<Record<ToneMapping, string>> = {
+	[LinearToneMapping]: 'LinearToneMapping',
+	[ReinhardToneMapping]: 'ReinhardToneMapping',
+	[CineonToneMapping]: 'CineonToneMapping',
+	[ACESFilmicToneMapping]: 'ACESFilmicToneMapping',
+	[AgXToneMapping]: 'AgXToneMapping',
+	[NeutralToneMapping]: 'NeutralToneMapping',
+};
+
+/**
+ * Tone maps, encodes to sRGB and flips vertically so read back rows are top to bottom
+ */
+class CaptureOutputMaterial extends ShaderMaterial<{
+	source: Uniform<Texture | null>,
+}, {
+	TONE_MAPPING_FUNCTION: string,
+}> {
+
+	constructor() {
+		super({
+			uniforms: {
+				source: new Uniform(null),
+			},
+			defines: {
+				TONE_MAPPING_FUNCTION: '',
+			},
+			vertexShader: /*glsl*/`
+				varying vec2 vUv;
+				void main() {
+					vUv = vec2(position.x * 0.5 + 0.5, 0.5 - position.y * 0.5);
+					gl_Position = vec4(position, 1.);
+				}
+			`,
+			fragmentShader: /*glsl*/`
+				precision highp float;
+				uniform sampler2D source;
+				varying vec2 vUv;
+
+				#include <tonemapping_pars_fragment>
+
+				void main() {
+					vec4 color = texture2D(source, vUv);
+					color.rgb = TONE_MAPPING_FUNCTION(color.rgb);
+					gl_FragColor = sRGBTransferOETF(clamp(color, 0.0, 1.0));
+				}
+			`,
+			depthTest: false,
+			depthWrite: false,
+			toneMapped: false,
+		});
+	}
+
+	setToneMapping(toneMapping: ToneMapping) {
+		const fn = toneMapping === NoToneMapping ? '' : toneMappingFunctions[toneMapping] ?? '';
+		if (fn !== this.defines.TONE_MAPPING_FUNCTION) {
+			this.defines.TONE_MAPPING_FUNCTION = fn;
+			this.needsUpdate = true;
+		}
+	}
+
+}
@@ -0,0 +1,131 @@
+import type { PhysicallyBasedViewer } from "../PhysicallyBasedViewer.js";
+import { AccumulationEffect } from "./effects/AccumulationEffect.js";
+import { MotionBlurEffect } from "./effects/MotionBlurEffect.js";
+import { PostProcessingEffect } from "./effects/PostProcessingEffect.js";
+import { TAAEffect } from "./effects/TAAEffect.js";
+import { FrameCapture } from "./FrameCapture.js";
+
+export type HighResolutionRenderOptions = {
+	/** Edge of each rendered tile including margins, clamped to the max texture and renderbuffer size @default 4096 */
+	tileSize?: number,
+	/**
+	 * Pixels rendered around each tile and discarded, hides seams from effects that sample neighbouring pixels (bloom, SSAO, FXAA)
+	 * @default 64 with post-processing, otherwise 0
+	 */
+	margin?: number,
+	/** @default 4 */
+	msaaSamples?: number,
+	/** `t_s` passed to `frameUpdate`, every tile is rendered at this time with `dt_s = 0` @default 0 */
+	time_s?: number,
+	onProgress?: (tileIndex: number, tileCount: number) => void,
+};
+
+/**
+ * RGBA8 pixels, rows top to bottom
+ */
+export type HighResolutionImage = {
+	width: number,
+	height: number,
+	data: Uint8ClampedArray,
+};
+
+/**
+ * Render the viewer's current view at a resolution larger than the canvas or the max texture size, e.g. for print
+ *
+ * The frame is split into tiles with `camera.setViewOffset()` (`OrthoPerspectiveCamera` included), each rendered through the viewer's normal render path and stitched on the CPU.
+ * Post-processing effects see the position of their tile through `PostProcessingContext.screenUvTransform`; effects sized in pixels (bloom radius, grain) keep their pixel size so appear smaller relative to the frame.
+ * Temporal effects (TAA, accumulation, motion blur) are disabled while rendering since tiles aren't consecutive frames, and controls aren't updated so damping doesn't move the camera between tiles
+ */
+export async function renderHighResolution(viewer: PhysicallyBasedViewer<any>, width: number, height: number, options: HighResolutionRenderOptions = {}): Promise<HighResolutionImage> {
+	width = Math.floor(width);
+	height = Math.floor(height);
+	if (!(width > 0 && height > 0)) {
+		throw new Error(`renderHighResolution: invalid size ${width}x${height}`);
+	}
+
+	const { renderer, camera, postProcessing } = viewer;
+	const gl = renderer.getContext();
+	const maxTileSize = Math.min(renderer.capabilities.maxTextureSize, gl.getParameter(gl.MAX_RENDERBUFFER_SIZE));
+	const tileSize = Math.min(Math.floor(options.tileSize ?? 4096), maxTileSize);
+	const margin = Math.floor(options.margin ?? (postProcessing != null ? 64 : 0));
+	const tileCore = tileSize - 2 * margin;
+	if (tileCore <= 0) {
+		throw new Error(`renderHighResolution: margin ${margin} leaves no space in ${tileSize}px tiles`);
+	}
+
+	const columns = Math.ceil(width / tileCore);
+	const rows = Math.ceil(height / tileCore);
+	const tileCount = columns * rows;
+	const data = new Uint8ClampedArray(width * height * 4);
+
+	const previousView = camera.view != null ? { ...camera.view } : null;
+	const previousControlsEnabled = viewer.controls.enabled;
+	const disabledEffects = new Array<PostProcessingEffect>();
+	for (let effect of postProcessing?.effects ?? []) {
+		if (effect.enabled && (effect instanceof TAAEffect || effect instanceof AccumulationEffect || effect instanceof MotionBlurEffect)) {
+			effect.enabled = false;
+			disabledEffects.push(effect);
+		}
+	}
+	viewer.controls.enabled = false;
+
+	const capture = new FrameCapture(viewer, {
+		width: tileSize,
+		height: tileSize,
+		startTime_s: options.time_s ?? 0,
+		msaaSamples: options.msaaSamples,
+	});
+
+	try {
+		for (let row = 0; row < rows; row++) {
+			for (let column = 0; column < columns; column++) {
+				const x = column * tileCore;
+				const y = row * tileCore;
+				// tiles on the right and bottom edges render past the frame, the excess is discarded
+				camera.setViewOffset(width, height, x - margin, y - margin, tileSize, tileSize);
+
+				const { imageData } = await capture.captureFrame(false);
+
+				const copyWidth = Math.min(tileCore, width - x);
+				const copyHeight = Math.min(tileCore, height - y);
+				for (let i = 0; i < copyHeight; i++) {
+					const sourceStart = ((margin + i) * tileSize + margin) * 4;
+					data.set(
+						imageData.data.subarray(sourceStart, sourceStart + copyWidth * 4),
+						((y + i) * width + x) * 4,
+					);
+				}
+
+				options.onProgress?.(row * columns + column, tileCount);
+			}
+		}
+	} finally {
+		capture.dispose();
+		if (previousView?.enabled) {
+			camera.setViewOffset(previousView.fullWidth, previousView.fullHeight, previousView.offsetX, previousView.offsetY, previousView.width, previousView.height);
+		} else {
+			camera.clearViewOffset();
+		}
+		viewer.controls.enabled = previousControlsEnabled;
+		for (let effect of disabledEffects) {
+			effect.enabled = true;
+		}
+	}
+
+	return { width, height, data };
+}
+
+/**
+ * Encode a high resolution render as PNG
+ *
+ * Browsers limit canvas area (for example Safari to 16M pixels), larger images should be written from `data` with a PNG encoder
+ */
+export function highResolutionImageToPNG(image: HighResolutionImage): Promise<Blob> {
+	const canvas = new OffscreenCanvas(image.width, image.height);
+	const context = canvas.getContext('2d');
+	if (context == null) {
+		throw new Error(`highResolutionImageToPNG: ${image.width}x${image.height} exceeds the canvas size limit`);
+	}
+	context.putImageData(new ImageData(image.data, image.width, image.height), 0, 0);
+	return canvas.convertToBlob({ type: 'image/png' });
+}
@@ -0,0 +1,163 @@
+import { Camera, Layers, Material, Matrix4, Mesh, Object3D, Scene, Uniform, WebGLRenderer, WebGLRenderTarget } from "three";
+import { ShaderMaterial } from "../materials/ShaderMaterial.js";
+import { Rendering } from "./Rendering.js";
+
+/**
+ * Renders screen-space motion vectors, `rg = currentUv - previousUv`
+ *
+ * Previous model matrices are stored per object and previous view-projection matrices per camera, both are updated after every `render()` so call it once per frame.
+ * Objects seen for the first time have no motion. Skinning, morph targets and instance matrices are rendered at their current pose only
+ *
+ * Target should be a float type with a depth buffer. Cleared pixels are 0
+ */
+export class MotionVectorRenderer {
+
+	protected materials = new WeakMap<Object3D, MotionVectorMaterial>();
+	protected allMaterials = new Set<MotionVectorMaterial>();
+	protected previousViewProjection = new WeakMap<Camera, Matrix4>();
+	protected renderedObjects = new Array<Object3D>();
+
+	render(renderer: WebGLRenderer, options: {
+		scene: Mesh | Scene,
+		camera: Camera,
+		target: WebGLRenderTarget,
+		layers?: Layers,
+		restoreGlobalState: boolean,
+	}) {
+		const { camera } = options;
+
+		camera.updateMatrixWorld();
+		_viewProjection.multiplyMatrices(camera.projectionMatrix, camera.matrixWorldInverse);
+		let previousViewProjection = this.previousViewProjection.get(camera);
+		if (previousViewProjection == null) {
+			previousViewProjection = _viewProjection.clone();
+			this.previousViewProjection.set(camera, previousViewProjection);
+		}
+
+		const renderedObjects = this.renderedObjects;
+		renderedObjects.length = 0;
+
+		try {
+			Rendering.renderPass(renderer, {
+				scene: options.scene,
+				camera,
+				target: options.target,
+				layers: options.layers,
+				clearColor: { rgb: 0x000000, alpha: 0 },
+				clearDepth: true,
+				overrideMaterial: (object) => {
+					const material = this.getMaterial(object, previousViewProjection!);
+					material.copySource(Array.isArray(object.material) ? object.material[0] : object.material);
+					renderedObjects.push(object);
+					return Array.isArray(object.material) ? object.material.map(() => material) : material;
+				},
+				restoreGlobalState: options.restoreGlobalState,
+			});
+		} finally {
+			// store this frame's matrices for the next
+			for (let object of renderedObjects) {
+				this.materials.get(object)?.uniforms.previousModelMatrix.value.copy(object.matrixWorld);
+			}
+			renderedObjects.length = 0;
+			previousViewProjection.copy(_viewProjection);
+		}
+	}
+
+	protected getMaterial(object: Object3D, previousViewProjection: Matrix4) {
+		let material = this.materials.get(object);
+		if (material == null) {
+			material = new MotionVectorMaterial();
+			object.updateMatrixWorld();
+			material.uniforms.previousModelMatrix.value.copy(object.matrixWorld);
+			this.materials.set(object, material);
+			this.allMaterials.add(material);
+		}
+		material.uniforms.previousViewProjection.value = previousViewProjection;
+		return material;
+	}
+
+	dispose() {
+		for (let material of this.allMaterials) {
+			material.dispose();
+		}
+		this.allMaterials.clear();
+		this.materials = new WeakMap();
+		this.previousViewProjection = new WeakMap();
+	}
+
+}
+
+const _viewProjection = new Matrix4();
+
+class MotionVectorMaterial extends ShaderMaterial<{
+	previousModelMatrix: Uniform<Matrix4>,
+	previousViewProjection: Uniform<Matrix4>,
+}> {
+
+	constructor() {
+		super({
+			uniforms: {
+				previousModelMatrix: new Uniform(new Matrix4()),
+				previousViewProjection: new Uniform(new Matrix4()),
+			},
+			vertexShader: /*glsl*/`
+				uniform mat4 previousModelMatrix;
+				uniform mat4 previousViewProjection;
+
+				#include <common>
+				#include <batching_pars_vertex>
+				#include <morphtarget_pars_vertex>
+				#include <skinning_pars_vertex>
+				#include <clipping_planes_pars_vertex>
+
+				varying vec4 vCurrentClip;
+				varying vec4 vPreviousClip;
+
+				void main() {
+					#include <batching_vertex>
+					#include <skinbase_vertex>
+
+					#include <begin_vertex>
+					#include <morphtarget_vertex>
+					#include <skinning_vertex>
+					#include <project_vertex>
+					#include <clipping_planes_vertex>
+
+					vec4 localPosition = vec4(transformed, 1.0);
+					#ifdef USE_BATCHING
+					localPosition = batchingMatrix * localPosition;
+					#endif
+					#ifdef USE_INSTANCING
+					localPosition = instanceMatrix * localPosition;
+					#endif
+
+					vCurrentClip = gl_Position;
+					vPreviousClip = previousViewProjection * previousModelMatrix * localPosition;
+				}
+			`,
+			fragmentShader: /*glsl*/`
+				varying vec4 vCurrentClip;
+				varying vec4 vPreviousClip;
+
+				#include <clipping_planes_pars_fragment>
+
+				void main() {
+					#include <clipping_planes_fragment>
+					vec2 current = vCurrentClip.xy / vCurrentClip.w;
+					vec2 previous = vPreviousClip.xy / vPreviousClip.w;
+					gl_FragColor = vec4((current - previous) * 0.5, 0.0, 1.0);
+				}
+			`,
+		});
+	}
+
+	copySource(source: Material) {
+		if (this.side !== source.side) {
+			this.side = source.side;
+			this.needsUpdate = true;
+		}
+		this.clippingPlanes = source.clippingPlanes;
+		this.visible = source.visible;
+	}
+
+}
@@ -0,0 +1,196 @@
+import { Camera, Layers, Material, Mesh, Scene, Uniform, WebGLRenderer, WebGLRenderTarget } from "three";
+import { ShaderMaterial } from "../materials/ShaderMaterial.js";
+import { Layer } from "./Layer.js";
+import { Rendering } from "./Rendering.js";
+
+/**
+ * GLSL helpers to read a normal buffer
+ * - `vec3 octDecode(vec2 e)`
+ * - `vec3 normalBufferViewNormal(vec4 texel)` view space normal
+ * - `float normalBufferRoughness(vec4 texel)`
+ * - `float normalBufferMetalness(vec4 texel)`
+ * - `bool normalBufferIsReflector(vec4 texel)`
+ */
+export const normalBufferGLSL = /*glsl*/`
+	vec2 octEncode(vec3 n) {
+		n /= abs(n.x) + abs(n.y) + abs(n.z);
+		vec2 signs = vec2(n.x >= 0.0 ? 1.0 : -1.0, n.y >= 0.0 ? 1.0 : -1.0);
+		return n.z >= 0.0 ? n.xy : (1.0 - abs(n.yx)) * signs;
+	}
+
+	vec3 octDecode(vec2 e) {
+		vec3 n = vec3(e, 1.0 - abs(e.x) - abs(e.y));
+		float t = max(-n.z, 0.0);
+		n.xy += vec2(n.x >= 0.0 ? -t : t, n.y >= 0.0 ? -t : t);
+		return normalize(n);
+	}
+
+	vec3 normalBufferViewNormal(vec4 texel) {
+		return octDecode(texel.rg);
+	}
+
+	float normalBufferRoughness(vec4 texel) {
+		return texel.b;
+	}
+
+	bool normalBufferIsReflector(vec4 texel) {
+		return texel.a > 0.25;
+	}
+
+	float normalBufferMetalness(vec4 texel) {
+		return clamp(texel.a * 2.0 - 1.0, 0.0, 1.0);
+	}
+`;
+
+/**
+ * Renders view space normals, roughness and a reflector mask of the scene
+ *
+ * Layout: `rg` octahedral encoded view normal, `b` roughness, `a` 0 for non-reflectors and `0.5 + 0.5 * metalness` for objects in `reflectorLayers`. Cleared pixels are 0
+ *
+ * Target should be a float type with a depth buffer. Roughness and metalness are read from `MeshStandardMaterial`-like materials, normal maps are ignored
+ */
+export class NormalBufferRenderer {
+
+	/**
+	 * Objects matching these layers are flagged as reflectors
+	 * @default Layer.ScreenSpaceReflector
+	 */
+	readonly reflectorLayers = new Layers();
+
+	/** [non-reflector, reflector] per source material */
+	protected materials = new WeakMap<Material, [NormalBufferMaterial, NormalBufferMaterial]>();
+	protected allMaterials = new Set<NormalBufferMaterial>();
+
+	constructor() {
+		this.reflectorLayers.set(Layer.ScreenSpaceReflector);
+	}
+
+	render(renderer: WebGLRenderer, options: {
+		scene: Mesh | Scene,
+		camera: Camera,
+		target: WebGLRenderTarget,
+		layers?: Layers,
+		restoreGlobalState: boolean,
+	}) {
+		Rendering.renderPass(renderer, {
+			scene: options.scene,
+			camera: options.camera,
+			target: options.target,
+			layers: options.layers,
+			clearColor: { rgb: 0x000000, alpha: 0 },
+			clearDepth: true,
+			overrideMaterial: (object) => {
+				const reflector = object.layers.test(this.reflectorLayers);
+				if (Array.isArray(object.material)) {
+					return object.material.map(m => this.getMaterial(m, reflector));
+				} else {
+					return this.getMaterial(object.material, reflector);
+				}
+			},
+			restoreGlobalState: options.restoreGlobalState,
+		});
+	}
+
+	protected getMaterial(source: Material, reflector: boolean) {
+		let pair = this.materials.get(source);
+		if (pair == null) {
+			pair = [new NormalBufferMaterial(false), new NormalBufferMaterial(true)];
+			this.materials.set(source, pair);
+			this.allMaterials.add(pair[0]);
+			this.allMaterials.add(pair[1]);
+		}
+		const material = pair[reflector ? 1 : 0];
+		material.copySource(source);
+		return material;
+	}
+
+	dispose() {
+		for (let material of this.allMaterials) {
+			material.dispose();
+		}
+		this.allMaterials.clear();
+		this.materials = new WeakMap();
+	}
+
+}
+
+class NormalBufferMaterial extends ShaderMaterial<{
+	roughness: Uniform<number>,
+	metalness: Uniform<number>,
+	reflector: Uniform<number>,
+}> {
+
+	constructor(reflector: boolean) {
+		super({
+			uniforms: {
+				roughness: new Uniform(1),
+				metalness: new Uniform(0),
+				reflector: new Uniform(reflector ? 1 : 0),
+			},
+			vertexShader: /*glsl*/`
+				#include <common>
+				#include <batching_pars_vertex>
+				#include <normal_pars_vertex>
+				#include <morphtarget_pars_vertex>
+				#include <skinning_pars_vertex>
+				#include <clipping_planes_pars_vertex>
+
+				void main() {
+					#include <batching_vertex>
+
+					#include <beginnormal_vertex>
+					#include <morphinstance_vertex>
+					#include <morphnormal_vertex>
+					#include <skinbase_vertex>
+					#include <skinnormal_vertex>
+					#include <defaultnormal_vertex>
+					#include <normal_vertex>
+
+					#include <begin_vertex>
+					#include <morphtarget_vertex>
+					#include <skinning_vertex>
+					#include <project_vertex>
+					#include <clipping_planes_vertex>
+				}
+			`,
+			fragmentShader: /*glsl*/`
+				uniform float roughness;
+				uniform float metalness;
+				uniform float reflector;
+
+				#include <normal_pars_fragment>
+				#include <clipping_planes_pars_fragment>
+
+				${normalBufferGLSL}
+
+				void main() {
+					#include <clipping_planes_fragment>
+
+					vec3 normal = normalize(vNormal);
+					#ifdef DOUBLE_SIDED
+					normal *= gl_FrontFacing ? 1.0 : -1.0;
+					#endif
+
+					gl_FragColor = vec4(
+						octEncode(normal),
+						roughness,
+						reflector > 0.5 ? 0.5 + 0.5 * metalness : 0.0
+					);
+				}
+			`,
+		});
+	}
+
+	copySource(source: Material) {
+		const pbr = source as Material & { roughness?: number, metalness?: number };
+		this.uniforms.roughness.value = pbr.roughness ?? 1;
+		this.uniforms.metalness.value = pbr.metalness ?? 0;
+		if (this.side !== source.side) {
+			this.side = source.side;
+			this.needsUpdate = true;
+		}
+		this.clippingPlanes = source.clippingPlanes;
+		this.visible = source.visible;
+	}
+
+}
@@ -0,0 +1,340 @@
+import { Camera, DepthTexture, HalfFloatType, LinearFilter, NearestFilter, OrthographicCamera, PerspectiveCamera, Texture, TextureDataType, UnsignedIntType, Vector4, WebGLRenderer, WebGLRenderTarget } from "three";
+import { DevUI } from "../dev/DevUI.js";
+import { BloomEffect } from "./effects/BloomEffect.js";
+import { ChromaticAberrationEffect } from "./effects/ChromaticAberrationEffect.js";
+import { FilmGrainEffect } from "./effects/FilmGrainEffect.js";
+import { FXAAEffect } from "./effects/FXAAEffect.js";
+import { OutputEffect } from "./effects/OutputEffect.js";
+import { PostProcessingContext, PostProcessingEffect } from "./effects/PostProcessingEffect.js";
+import { VignetteEffect } from "./effects/VignetteEffect.js";
+import { MotionVectorRenderer } from "./MotionVectorRenderer.js";
+import { NormalBufferRenderer } from "./NormalBufferRenderer.js";
+import { Rendering } from "./Rendering.js";
+import RenderTargetStore from "./RenderTargetStore.js";
+import { WeightedBlendedOIT } from "./WeightedBlendedOIT.js";
+
+export type PostProcessingStackOptions = {
+	/** Replace the default effects */
+	effects?: PostProcessingEffect[],
+	/** Share a store with its owner, who must call `nextFrame()` once per frame. By default the stack creates and advances its own */
+	renderTargetStore?: RenderTargetStore,
+	/**
+	 * MSAA samples for the scene target
+	 * @default 4
+	 */
+	msaaSamples?: number,
+	/** @default HalfFloatType */
+	type?: TextureDataType,
+	/** Render `Layer.Blended` objects with order-independent transparency */
+	oit?: WeightedBlendedOIT,
+}
+
+/**
+ * Renders the scene into an HDR target then runs an ordered list of effects, the last enabled effect writes to the output
+ *
+ * Default effects are bloom → chromatic aberration → vignette → FXAA → film grain → output (tone mapping and color space)
+ *
+ * Use as `viewer.customRender = postProcessingStack` or enable with the `postProcessing` viewer option
+ */
+export class PostProcessingStack {
+
+	readonly effects: PostProcessingEffect[];
+
+	readonly bloom = new BloomEffect();
+	readonly chromaticAberration = new ChromaticAberrationEffect();
+	readonly vignette = new VignetteEffect();
+	readonly fxaa = new FXAAEffect();
+	readonly filmGrain = new FilmGrainEffect();
+	readonly output = new OutputEffect();
+
+	readonly renderTargetStore: RenderTargetStore;
+	readonly depthTexture: DepthTexture;
+	readonly normalBufferRenderer = new NormalBufferRenderer();
+	readonly motionVectorRenderer = new MotionVectorRenderer();
+
+	msaaSamples: number;
+	type: TextureDataType;
+	oit: WeightedBlendedOIT | null;
+
+	protected frame = 0;
+	/** The store was created by the stack, so the stack advances it */
+	protected readonly ownsRenderTargetStore: boolean;
+	protected lastRenderTime_ms: number | null = null;
+	protected screenUvTransform = new Vector4();
+
+	constructor(options?: PostProcessingStackOptions) {
+		this.effects = options?.effects ?? [
+			this.bloom,
+			this.chromaticAberration,
+			this.vignette,
+			this.fxaa,
+			this.filmGrain,
+			this.output,
+		];
+		this.renderTargetStore = options?.renderTargetStore ?? new RenderTargetStore();
+		this.ownsRenderTargetStore = options?.renderTargetStore == null;
+		this.msaaSamples = options?.msaaSamples ?? 4;
+		this.type = options?.type ?? HalfFloatType;
+		this.oit = options?.oit ?? null;
+		this.depthTexture = new DepthTexture(1, 1, UnsignedIntType);
+		this.depthTexture.minFilter = NearestFilter;
+		this.depthTexture.magFilter = NearestFilter;
+	}
+
+	addEffect<T extends PostProcessingEffect>(effect: T, index: number = this.effects.indexOf(this.output)) {
+		if (index < 0) {
+			this.effects.push(effect);
+		} else {
+			this.effects.splice(index, 0, effect);
+		}
+		return effect;
+	}
+
+	removeEffect(effect: PostProcessingEffect) {
+		const i = this.effects.indexOf(effect);
+		if (i !== -1) {
+			this.effects.splice(i, 1);
+		}
+	}
+
+	/**
+	 * True while any enabled effect needs another frame, see `PostProcessingEffect.needsFrame`
+	 */
+	get needsFrame() {
+		return this.effects.some(e => e.enabled && e.needsFrame === true);
+	}
+
+	getEffect<T extends PostProcessingEffect>(type: new (...args: any[]) => T): T | undefined {
+		return this.effects.find(e => e instanceof type) as T | undefined;
+	}
+
+	/**
+	 * Has the same signature as `PhysicallyBasedViewer.customRender`
+	 *
+	 * Without `frameTime` the time between frames is measured with the wall clock
+	 */
+	render = (renderer: WebGLRenderer, renderPassOptions: Rendering.RenderPassOptions, frameTime?: { t_s: number, dt_s: number }) => {
+		const outputTarget = renderPassOptions.target;
+		const outputViewport = renderPassOptions.viewport;
+
+		let width: number;
+		let height: number;
+		if (outputViewport != null) {
+			const dpr = renderer.getPixelRatio();
+			width = Math.floor(outputViewport.z * dpr);
+			height = Math.floor(outputViewport.w * dpr);
+		} else if (outputTarget != null) {
+			width = outputTarget.width;
+			height = outputTarget.height;
+		} else {
+			const gl = renderer.getContext();
+			width = gl.drawingBufferWidth;
+			height = gl.drawingBufferHeight;
+		}
+
+		const now_ms = performance.now();
+		const dt_s = frameTime?.dt_s ?? (this.lastRenderTime_ms == null ? 0 : Math.min((now_ms - this.lastRenderTime_ms) / 1000, 0.1));
+		this.lastRenderTime_ms = now_ms;
+
+		const stateDepth = renderPassOptions.restoreGlobalState ? Rendering.pushState(renderer) : -1;
+
+		try {
+			const sceneTarget = this.renderTargetStore.getRenderTarget('postProcessing.scene', width, height, {
+				type: this.type,
+				magFilter: LinearFilter,
+				minFilter: LinearFilter,
+				depthTexture: this.depthTexture,
+				msaaSamples: this.msaaSamples,
+			})!;
+
+			let normalBuffer: WebGLRenderTarget | null = null;
+			let motionVectors: WebGLRenderTarget | null = null;
+			const context: PostProcessingContext = {
+				renderer,
+				scene: renderPassOptions.scene,
+				camera: renderPassOptions.camera,
+				renderPassOptions,
+				width,
+				height,
+				depthTexture: this.depthTexture,
+				getNormalBuffer: () => {
+					if (normalBuffer == null) {
+						normalBuffer = this.renderTargetStore.getRenderTarget('postProcessing.normals', width, height, {
+							type: HalfFloatType,
+							magFilter: NearestFilter,
+							minFilter: NearestFilter,
+							depthBuffer: true,
+						})!;
+						this.normalBufferRenderer.render(renderer, {
+							scene: renderPassOptions.scene,
+							camera: renderPassOptions.camera,
+							layers: renderPassOptions.layers,
+							target: normalBuffer,
+							restoreGlobalState: false,
+						});
+					}
+					return normalBuffer.texture;
+				},
+				getMotionVectors: () => {
+					if (motionVectors == null) {
+						motionVectors = this.renderTargetStore.getRenderTarget('postProcessing.motion', width, height, {
+							type: HalfFloatType,
+							magFilter: NearestFilter,
+							minFilter: NearestFilter,
+							depthBuffer: true,
+						})!;
+						this.motionVectorRenderer.render(renderer, {
+							scene: renderPassOptions.scene,
+							camera: renderPassOptions.camera,
+							layers: renderPassOptions.layers,
+							target: motionVectors,
+							restoreGlobalState: false,
+						});
+					}
+					return motionVectors.texture;
+				},
+				outputTarget,
+				outputViewport,
+				renderTargetStore: this.renderTargetStore,
+				frame: this.frame,
+				dt_s,
+				screenUvTransform: getScreenUvTransform(renderPassOptions.camera, this.screenUvTransform),
+			};
+
+			// linear HDR scene, tone mapping is applied by the output effect
+			const scenePassOptions: Rendering.RenderPassOptions = {
+				...renderPassOptions,
+				target: sceneTarget,
+				viewport: undefined,
+				scissor: undefined,
+				toneMapping: undefined,
+				toneMappingExposure: undefined,
+				restoreGlobalState: false,
+			};
+
+			let source: Texture = sceneTarget.texture;
+
+			const enabledEffects = this.effects.filter(e => e.enabled);
+
+			for (let effect of enabledEffects) {
+				effect.beforeSceneRender?.(context);
+			}
+
+			try {
+				if (this.oit != null) {
+					this.oit.renderOpaque(renderer, scenePassOptions);
+					const oitTarget = this.renderTargetStore.getRenderTarget('postProcessing.oit', width, height, {
+						type: this.type,
+						magFilter: LinearFilter,
+						minFilter: LinearFilter,
+					})!;
+					this.oit.composite(renderer, {
+						scene: renderPassOptions.scene,
+						camera: renderPassOptions.camera,
+						layers: renderPassOptions.layers,
+						opaque: sceneTarget,
+						target: oitTarget,
+						restoreGlobalState: false,
+					});
+					source = oitTarget.texture;
+				} else {
+					Rendering.renderPass(renderer, scenePassOptions);
+				}
+			} finally {
+				for (let i = enabledEffects.length - 1; i >= 0; i--) {
+					enabledEffects[i].afterSceneRender?.(context);
+				}
+			}
+
+			for (let i = 0; i < enabledEffects.length; i++) {
+				const isLast = i === enabledEffects.length - 1;
+				let target: WebGLRenderTarget | null;
+				if (isLast) {
+					target = outputTarget;
+				} else {
+					const ping = this.getPingPongTarget('postProcessing.ping', width, height);
+					target = source === ping.texture ? this.getPingPongTarget('postProcessing.pong', width, height) : ping;
+				}
+				enabledEffects[i].render(context, source, target);
+				if (target != null) {
+					source = target.texture;
+				}
+			}
+
+			if (enabledEffects.length === 0) {
+				Rendering.blit(renderer, {
+					source,
+					target: outputTarget,
+					viewport: outputViewport,
+					restoreGlobalState: false,
+				});
+			}
+		} finally {
+			if (renderPassOptions.restoreGlobalState) {
+				Rendering.popState(renderer, stateDepth);
+			}
+		}
+
+		this.frame++;
+		if (this.ownsRenderTargetStore) {
+			this.renderTargetStore.nextFrame();
+		}
+	}
+
+	protected getPingPongTarget(key: string, width: number, height: number) {
+		return this.renderTargetStore.getRenderTarget(key, width, height, {
+			type: this.type,
+			magFilter: LinearFilter,
+			minFilter: LinearFilter,
+		})!;
+	}
+
+	addDevUI(name = 'Post Processing') {
+		if (DevUI.disabled) {
+			return;
+		}
+		const folder = DevUI.ui.addFolder(name);
+		folder.close();
+		for (let effect of this.effects) {
+			const effectFolder = folder.addFolder(effect.name);
+			effectFolder.add(effect, 'enabled');
+			effect.addDevUI?.(effectFolder);
+			effectFolder.close();
+		}
+		return folder;
+	}
+
+	/**
+	 * Reallocate intermediate targets and discard effect history after a WebGL context restore
+	 */
+	restoreContext() {
+		this.renderTargetStore.reallocateAll();
+		for (let effect of this.effects) {
+			effect.restoreContext?.();
+		}
+	}
+
+	dispose() {
+		for (let effect of this.effects) {
+			effect.dispose();
+		}
+		this.renderTargetStore.clearAndDisposeAll();
+		this.depthTexture.dispose();
+		this.normalBufferRenderer.dispose();
+		this.motionVectorRenderer.dispose();
+	}
+
+}
+
+function getScreenUvTransform(camera: Camera, result: Vector4) {
+	const view = (camera as PerspectiveCamera | OrthographicCamera).view;
+	if (view == null || !view.enabled) {
+		return result.set(1, 1, 0, 0);
+	}
+	return result.set(
+		view.width / view.fullWidth,
+		view.height / view.fullHeight,
+		view.offsetX / view.fullWidth,
+		(view.fullHeight - view.offsetY - view.height) / view.fullHeight,
+	);
+}
@@ -0,0 +1,379 @@
+import { Texture, WebGLRenderer, WebGLRenderTarget } from "three";
+import { Rendering } from "./Rendering.js";
+import RenderTargetStore, { PowerOfTwoMode, RenderTargetStoreOptions } from "./RenderTargetStore.js";
+
+/**
+ * Description of a transient render target owned by the graph
+ */
+export type RenderGraphResource = {
+	/**
+	 * Size relative to the graph output (the canvas drawing buffer or the target passed to `render()`)
+	 * @default 1
+	 */
+	scale?: number,
+	/** Fixed width in pixels, overrides `scale` */
+	width?: number,
+	/** Fixed height in pixels, overrides `scale` */
+	height?: number,
+	options: RenderTargetStoreOptions,
+}
+
+export type RenderGraphPassContext = {
+	renderer: WebGLRenderer,
+	/** Options the graph was rendered with, for example the viewer's scene render options */
+	renderPassOptions: Rendering.RenderPassOptions,
+	/** Output size in pixels */
+	width: number,
+	height: number,
+	/** Texture of a resource this pass declared as an input */
+	input: (name: string) => Texture,
+	/** Target of a resource this pass declared as an output. `null` is the canvas */
+	output: (name: string) => WebGLRenderTarget | null,
+}
+
+export type RenderGraphPass = {
+	name: string,
+	/** Resources read by this pass */
+	inputs?: string[],
+	/** Resources written by this pass, use `RenderGraph.output` to write to the graph's final target */
+	outputs: string[],
+	/**
+	 * The pass does work beyond writing its outputs and must never be culled
+	 * @default false
+	 */
+	sideEffects?: boolean,
+	execute: (context: RenderGraphPassContext) => void,
+}
+
+export type RenderGraphCompiled = {
+	/** Passes that will execute, in execution order */
+	passes: RenderGraphPass[],
+	/** Passes skipped because nothing reads their outputs */
+	culledPasses: RenderGraphPass[],
+	/** Transient resource name → physical render target slot. Resources sharing a slot alias the same target */
+	slots: Map<string, number>,
+	/** Number of physical render targets required */
+	slotCount: number,
+}
+
+/**
+ * Declarative render graph
+ *
+ * Passes declare named inputs and outputs; the graph orders passes by their dependencies, skips passes whose
+ * outputs nobody reads and allocates transient targets from a `RenderTargetStore`. Transients whose lifetimes
+ * don't overlap share the same physical target when their descriptions match
+ *
+ * @example
+ * ```typescript
+ * const graph = new RenderGraph();
+ * graph.addResource('hdr', { options: { type: HalfFloatType, magFilter: LinearFilter, depthBuffer: true } });
+ * graph.addPass(RenderGraph.scenePass('scene', 'hdr'));
+ * graph.addPass({
+ *     name: 'tonemap',
+ *     inputs: ['hdr'],
+ *     outputs: [RenderGraph.output],
+ *     execute: (ctx) => Rendering.blit(ctx.renderer, {
+ *         source: ctx.input('hdr'),
+ *         target: ctx.output(RenderGraph.output),
+ *         toneMapping: ctx.renderPassOptions.toneMapping,
+ *         applyOutputColorSpace: true,
+ *         restoreGlobalState: false,
+ *     }),
+ * });
+ * viewer.customRender = graph;
+ * ```
+ */
+export class RenderGraph {
+
+	/** Name of the graph's final target: the target passed to `render()` or the canvas */
+	static readonly output = 'output';
+
+	readonly name: string;
+	readonly renderTargetStore: RenderTargetStore;
+
+	protected passes = new Array<RenderGraphPass>();
+	protected resources = new Map<string, RenderGraphResource>();
+	protected importedTextures = new Map<string, Texture | (() => Texture)>();
+	protected compiled: RenderGraphCompiled | null = null;
+
+	constructor(name: string = 'RenderGraph', renderTargetStore: RenderTargetStore = new RenderTargetStore()) {
+		this.name = name;
+		this.renderTargetStore = renderTargetStore;
+	}
+
+	/**
+	 * Declare a transient render target. It only exists while passes that use it are running
+	 */
+	addResource(name: string, resource: RenderGraphResource) {
+		if (name === RenderGraph.output) {
+			throw new Error(`RenderGraph: "${RenderGraph.output}" is reserved for the graph output`);
+		}
+		this.resources.set(name, resource);
+		this.compiled = null;
+		return this;
+	}
+
+	/**
+	 * Make an external texture available to passes as an input
+	 */
+	importTexture(name: string, texture: Texture | (() => Texture)) {
+		this.importedTextures.set(name, texture);
+		this.compiled = null;
+		return this;
+	}
+
+	addPass(pass: RenderGraphPass) {
+		this.passes.push(pass);
+		this.compiled = null;
+		return this;
+	}
+
+	removePass(name: string) {
+		this.passes = this.passes.filter(p => p.name !== name);
+		this.compiled = null;
+		return this;
+	}
+
+	getPass(name: string) {
+		return this.passes.find(p => p.name === name);
+	}
+
+	/**
+	 * Order passes, cull unused passes and assign transient resources to physical targets
+	 *
+	 * Called automatically by `render()` when the graph has changed
+	 */
+	compile(): RenderGraphCompiled {
+		if (this.compiled != null) {
+			return this.compiled;
+		}
+
+		// map each resource to the pass that writes it
+		const writers = new Map<string, RenderGraphPass>();
+		for (let pass of this.passes) {
+			for (let output of pass.outputs) {
+				if (output !== RenderGraph.output && !this.resources.has(output)) {
+					throw new Error(`RenderGraph: pass "${pass.name}" writes undeclared resource "${output}"`);
+				}
+				if (this.importedTextures.has(output)) {
+					throw new Error(`RenderGraph: pass "${pass.name}" writes imported texture "${output}"`);
+				}
+				const existingWriter = writers.get(output);
+				if (existingWriter != null) {
+					throw new Error(`RenderGraph: "${output}" is written by both "${existingWriter.name}" and "${pass.name}"`);
+				}
+				writers.set(output, pass);
+			}
+		}
+
+		for (let pass of this.passes) {
+			for (let input of pass.inputs ?? []) {
+				if (!writers.has(input) && !this.importedTextures.has(input)) {
+					throw new Error(`RenderGraph: pass "${pass.name}" reads "${input}" but no pass writes it`);
+				}
+			}
+		}
+
+		// walk back from the graph output and side-effect passes to find live passes
+		const live = new Set<RenderGraphPass>();
+		const visit = (pass: RenderGraphPass) => {
+			if (live.has(pass)) return;
+			live.add(pass);
+			for (let input of pass.inputs ?? []) {
+				const writer = writers.get(input);
+				if (writer != null) visit(writer);
+			}
+		}
+		for (let pass of this.passes) {
+			if (pass.sideEffects === true || pass.outputs.includes(RenderGraph.output)) {
+				visit(pass);
+			}
+		}
+
+		// topological sort, ties resolved by declaration order
+		const ordered = new Array<RenderGraphPass>();
+		const state = new Map<RenderGraphPass, 'visiting' | 'done'>();
+		const sort = (pass: RenderGraphPass) => {
+			const s = state.get(pass);
+			if (s === 'done') return;
+			if (s === 'visiting') {
+				throw new Error(`RenderGraph: cycle detected at pass "${pass.name}"`);
+			}
+			state.set(pass, 'visiting');
+			for (let input of pass.inputs ?? []) {
+				const writer = writers.get(input);
+				if (writer != null) sort(writer);
+			}
+			state.set(pass, 'done');
+			ordered.push(pass);
+		}
+		for (let pass of this.passes) {
+			if (live.has(pass)) sort(pass);
+		}
+
+		// resource lifetimes in execution order
+		const lastUse = new Map<string, number>();
+		ordered.forEach((pass, i) => {
+			for (let output of pass.outputs) lastUse.set(output, i);
+			for (let input of pass.inputs ?? []) lastUse.set(input, i);
+		});
+
+		// assign physical slots, reusing slots whose previous resource is no longer needed
+		const slots = new Map<string, number>();
+		const slotKeys = new Array<string>();
+		const freeSlots = new Array<number>();
+		ordered.forEach((pass, i) => {
+			for (let output of pass.outputs) {
+				if (output === RenderGraph.output) continue;
+				const key = resourceKey(this.resources.get(output)!);
+				const freeIndex = freeSlots.findIndex(slot => slotKeys[slot] === key);
+				let slot: number;
+				if (freeIndex !== -1) {
+					slot = freeSlots[freeIndex];
+					freeSlots.splice(freeIndex, 1);
+				} else {
+					slot = slotKeys.length;
+					slotKeys.push(key);
+				}
+				slots.set(output, slot);
+			}
+			// release resources after their last use
+			for (let [name, slot] of slots) {
+				if (lastUse.get(name) === i && !freeSlots.includes(slot)) {
+					freeSlots.push(slot);
+				}
+			}
+		});
+
+		this.compiled = {
+			passes: ordered,
+			culledPasses: this.passes.filter(p => !live.has(p)),
+			slots,
+			slotCount: slotKeys.length,
+		};
+
+		return this.compiled;
+	}
+
+	/**
+	 * Execute the graph. Has the same signature as `PhysicallyBasedViewer.customRender`
+	 */
+	render = (renderer: WebGLRenderer, renderPassOptions: Rendering.RenderPassOptions) => {
+		const compiled = this.compile();
+		const outputTarget = renderPassOptions.target;
+
+		let width: number;
+		let height: number;
+		if (outputTarget != null) {
+			width = outputTarget.width;
+			height = outputTarget.height;
+		} else {
+			const gl = renderer.getContext();
+			width = gl.drawingBufferWidth;
+			height = gl.drawingBufferHeight;
+		}
+
+		// allocate physical targets
+		const targets = new Map<string, WebGLRenderTarget>();
+		for (let [name, slot] of compiled.slots) {
+			const resource = this.resources.get(name)!;
+			const scale = resource.scale ?? 1;
+			const target = this.renderTargetStore.getRenderTarget(
+				`${this.name}:${slot}`,
+				resource.width ?? Math.floor(width * scale),
+				resource.height ?? Math.floor(height * scale),
+				resource.options,
+			)!;
+			targets.set(name, target);
+		}
+
+		const stateDepth = renderPassOptions.restoreGlobalState ? Rendering.pushState(renderer) : -1;
+
+		try {
+			for (let pass of compiled.passes) {
+				pass.execute({
+					renderer,
+					renderPassOptions,
+					width,
+					height,
+					input: (name) => {
+						if (!(pass.inputs ?? []).includes(name)) {
+							throw new Error(`RenderGraph: pass "${pass.name}" did not declare input "${name}"`);
+						}
+						const imported = this.importedTextures.get(name);
+						if (imported != null) {
+							return typeof imported === 'function' ? imported() : imported;
+						}
+						return targets.get(name)!.texture;
+					},
+					output: (name) => {
+						if (!pass.outputs.includes(name)) {
+							throw new Error(`RenderGraph: pass "${pass.name}" did not declare output "${name}"`);
+						}
+						return name === RenderGraph.output ? outputTarget : targets.get(name)!;
+					},
+				});
+			}
+		} finally {
+			if (renderPassOptions.restoreGlobalState) {
+				Rendering.popState(renderer, stateDepth);
+			}
+		}
+	}
+
+	dispose() {
+		this.renderTargetStore.clearAndDisposeAll();
+	}
+
+	/**
+	 * Pass that renders the scene with the graph's render options into `output`
+	 */
+	static scenePass(name: string, output: string, overrides?: Partial<Rendering.RenderPassOptions>): RenderGraphPass {
+		return {
+			name,
+			outputs: [output],
+			execute: (ctx) => {
+				Rendering.renderPass(ctx.renderer, {
+					...ctx.renderPassOptions,
+					// scene passes write linear values, tone mapping is expected to be applied by a later pass unless overridden
+					toneMapping: undefined,
+					toneMappingExposure: undefined,
+					...overrides,
+					target: ctx.output(output),
+					restoreGlobalState: false,
+				});
+			},
+		}
+	}
+
+}
+
+/**
+ * Resources with the same key produce identical render targets and may alias
+ */
+function resourceKey(resource: RenderGraphResource) {
+	const o = resource.options;
+	return [
+		resource.scale ?? 1,
+		resource.width ?? '',
+		resource.height ?? '',
+		o.powerOfTwoMode ?? PowerOfTwoMode.None,
+		o.depthBuffer ?? false,
+		o.depthTexture?.uuid ?? '',
+		o.type,
+		o.magFilter,
+		o.minFilter ?? '',
+		o.msaaSamples ?? 0,
+		o.wrapS ?? '',
+		o.wrapT ?? '',
+		o.format ?? '',
+		o.colorSpace ?? '',
+		o.allocateMipmaps ?? false,
+		o.anisotropy ?? '',
+		o.dimension ?? '2d',
+		o.depth ?? 1,
+		o.wrapR ?? '',
+		o.count ?? 1,
+		(o.attachments ?? []).map(a => [a?.type ?? '', a?.format ?? '', a?.magFilter ?? '', a?.minFilter ?? ''].join(',')).join(';'),
+	].join('|');
+}
@@ -1,5 +1,6 @@
 import { nearestPowerOfTwo } from '../math/Math.js';
-import { ClampToEdgeWrapping, ColorSpace, DepthTexture, LinearFilter, MagnificationTextureFilter, MathUtils, MinificationTextureFilter, NoColorSpace, PixelFormat, RGBAFormat, TextureDataType, UnsignedByteType, WebGLRenderer, WebGLRenderTarget, Wrapping } from 'three';
+import { ClampToEdgeWrapping, ColorSpace, DepthTexture, LinearFilter, MagnificationTextureFilter, MathUtils, MinificationTextureFilter, NearestFilter, NoColorSpace, PixelFormat, RenderTargetOptions, RGBAFormat, Texture, TextureDataType, UnsignedByteType, WebGL3DRenderTarget, WebGLArrayRenderTarget, WebGLRenderer, WebGLRenderTarget, Wrapping } from 'three';
+import { getBytesPerPixel } from '../utils/TextureUtils.js';
 
 export enum PowerOfTwoMode {
 	None,
@@ -8,9 +9,42 @@ export enum PowerOfTwoMode {
 	Nearest,
 }
 
+/** Array and 3D textures have a third wrap mode */
+type LayeredTexture = Texture & { wrapR?: Wrapping };
+
 type RenderTarget = WebGLRenderTarget & {
 	name: string;
 	copyContentWhenReallocating: boolean;
+	lastUsedFrame: number;
+}
+
+export type RenderTargetInfo = {
+	key: string,
+	width: number,
+	height: number,
+	format: PixelFormat,
+	type: TextureDataType,
+	samples: number,
+	mipmapCount: number,
+	/** Estimated GPU memory, see `RenderTargetStore.getRenderTargetBytes()` */
+	bytes: number,
+	/** Frames since the target was last requested */
+	idleFrames: number,
+}
+
+/**
+ * `'array'` creates a `WebGLArrayRenderTarget` and `'3d'` a `WebGL3DRenderTarget`, both with `depth` layers
+ */
+export type RenderTargetDimension = '2d' | 'array' | '3d';
+
+/**
+ * Per-attachment overrides for multiple render targets
+ */
+export type RenderTargetAttachmentOptions = {
+	type?: TextureDataType,
+	format?: PixelFormat,
+	magFilter?: MagnificationTextureFilter,
+	minFilter?: MinificationTextureFilter,
 }
 
 export type RenderTargetStoreOptions = {
@@ -27,6 +61,15 @@ export type RenderTargetStoreOptions = {
 	colorSpace?: ColorSpace,
 	allocateMipmaps?: boolean,
 	anisotropy?: number,
+	/** @default '2d' */
+	dimension?: RenderTargetDimension,
+	/** Layers of an array target or slices of a 3D target, not affected by `powerOfTwoMode`. @default 1 */
+	depth?: number,
+	wrapR?: Wrapping,
+	/** Number of color attachments for multiple render targets. @default 1 */
+	count?: number,
+	/** Overrides for each color attachment index, other settings are shared by all attachments */
+	attachments?: RenderTargetAttachmentOptions[],
 }
 
 export default class RenderTargetStore {
@@ -45,21 +88,103 @@ export default class RenderTargetStore {
 		format: RGBAFormat,
 		allocateMipmaps: false,
 		colorSpace: NoColorSpace,
+		dimension: '2d' as RenderTargetDimension,
+		depth: 1,
+		wrapR: ClampToEdgeWrapping,
+		count: 1,
 	}
 
 	protected renderTargets: { [key: string]: RenderTarget } = {};
 
+	/**
+	 * When the estimated memory of all targets exceeds this, least recently used targets are disposed until it fits.
+	 * Targets requested in the current frame are never evicted so the budget may be exceeded
+	 */
+	memoryBudget_bytes = Infinity;
+
+	/**
+	 * Targets not requested for more than this many frames are disposed by `nextFrame()`
+	 */
+	maxIdleFrames = 600;
+
+	protected _frame = 0;
+	get frame() { return this._frame; }
+
+	/**
+	 * Advance the frame counter used for LRU eviction, then evict idle targets and enforce the memory budget
+	 * 
+	 * Should be called once per frame by whoever owns the store; stores that never advance never evict
+	 */
+	nextFrame() {
+		this._frame++;
+		for (let key in this.renderTargets) {
+			if (this._frame - this.renderTargets[key].lastUsedFrame > this.maxIdleFrames) {
+				this.disposeRenderTarget(key);
+			}
+		}
+		this.enforceMemoryBudget();
+	}
+
+	/**
+	 * Dispose least recently used targets not requested this frame until the total fits `memoryBudget_bytes`
+	 */
+	enforceMemoryBudget() {
+		let totalBytes = this.getTotalBytes();
+		if (totalBytes <= this.memoryBudget_bytes) return;
+
+		const candidates = Object.values(this.renderTargets)
+			.filter(target => target.lastUsedFrame < this._frame)
+			.sort((a, b) => a.lastUsedFrame - b.lastUsedFrame);
+
+		for (let target of candidates) {
+			if (totalBytes <= this.memoryBudget_bytes) break;
+			totalBytes -= RenderTargetStore.getRenderTargetBytes(target);
+			this.disposeRenderTarget(target.name);
+		}
+	}
+
+	/**
+	 * Estimated GPU memory of all live targets in bytes
+	 */
+	getTotalBytes() {
+		let total = 0;
+		for (let key in this.renderTargets) {
+			total += RenderTargetStore.getRenderTargetBytes(this.renderTargets[key]);
+		}
+		return total;
+	}
+
+	/**
+	 * List all live targets with their sizes, largest first
+	 */
+	getRenderTargetInfo(): RenderTargetInfo[] {
+		return Object.entries(this.renderTargets).map(([key, target]) => ({
+			key,
+			width: target.width,
+			height: target.height,
+			format: target.texture.format as PixelFormat,
+			type: target.texture.type,
+			samples: target.samples,
+			mipmapCount: getMipmapCount(target),
+			bytes: RenderTargetStore.getRenderTargetBytes(target),
+			idleFrames: this._frame - target.lastUsedFrame,
+		})).sort((a, b) => b.bytes - a.bytes);
+	}
+
 	getRenderTarget(
 		key: string,
 		width?: number,
 		height?: number,
 		options?: RenderTargetStoreOptions,
-		/** You may use this to copy content when reallocating as target will be valid during the callback */
+		/** You may use this to copy content when reallocating as target will be valid during the callback, see `Rendering.copyRenderTarget()` */
 		onCreateOrReallocate?: (event: 'create' | 'reallocate', newTarget: RenderTarget, oldTarget: RenderTarget) => void,
 	) {
 		let target: RenderTarget | undefined = this.renderTargets[key];
 
 		if (width == null || height == null) {
+			if (target != null) {
+				target.lastUsedFrame = this._frame;
+			}
 			return target;
 		}
 
@@ -107,9 +232,12 @@ export default class RenderTargetStore {
 			const wrapT = options?.wrapT ?? defaultOptions.wrapT;
 			const samples = options?.msaaSamples ?? defaultOptions.msaaSamples;
 			const allocateMipmaps = options?.allocateMipmaps ?? defaultOptions.allocateMipmaps;
+			const dimension = options?.dimension ?? defaultOptions.dimension;
+			const depth = Math.max(1, Math.round(options?.depth ?? defaultOptions.depth));
+			const count = options?.count ?? defaultOptions.count;
 
 			// console.info(`RenderTargetStore creating render target ${name}`);
-			target = new WebGLRenderTarget(textureWidth, textureHeight, {
+			target = createRenderTarget(dimension, textureWidth, textureHeight, depth, {
 				colorSpace,
 				anisotropy,
 				generateMipmaps,
@@ -123,36 +251,55 @@ export default class RenderTargetStore {
 				wrapS,
 				wrapT,
 				samples,
-			}) as RenderTarget;
+				count,
+			});
+
+			for (let i = 0; i < target.textures.length; i++) {
+				const texture: LayeredTexture = target.textures[i];
+				if (dimension !== '2d') {
+					texture.wrapR = options?.wrapR ?? defaultOptions.wrapR;
+				}
+				applyAttachmentOptions(texture, options?.attachments?.[i]);
+			}
 
 			// target.texture.width = target.width;
 			// target.texture.height = target.height;
 			target.name = key;
+			target.lastUsedFrame = this._frame;
 			this.renderTargets[key] = target;
 
 			if (allocateMipmaps) {
 				initMipmapArray(target);
 			}
 			onCreateOrReallocate?.('create', target, target);
+			this.enforceMemoryBudget();
 		} else {
 			let needsReallocation = (
 				target.width != textureWidth ||
 				target.height != textureHeight ||
 				(options?.msaaSamples != null && (options?.msaaSamples !== target?.samples))||
-				(options?.type != null && options?.type !== target?.texture.type)
+				(options?.dimension != null && options.dimension !== getDimension(target)) ||
+				(options?.depth != null && Math.max(1, Math.round(options.depth)) !== target.depth) ||
+				(options?.count != null && options.count !== target.textures.length) ||
+				(options?.type != null && target.textures.some((texture, i) => (options.attachments?.[i]?.type ?? options.type) !== texture.type))
 			);
 
 			// update options, here we do not use defaults intentionally
 			if (options != null) {
-				target.texture.type = options.type;
-				target.texture.format = options.format ?? target.texture.format
-				target.texture.magFilter = options.magFilter;
-				target.texture.minFilter = options.minFilter ?? target.texture.minFilter
-				target.texture.wrapS = options.wrapS ?? target.texture.wrapS;
-				target.texture.wrapT = options.wrapT ?? target.texture.wrapT;
-				target.texture.anisotropy = options.anisotropy ?? target.texture.anisotropy;
+				for (let i = 0; i < target.textures.length; i++) {
+					const texture: LayeredTexture = target.textures[i];
+					texture.type = options.type;
+					texture.format = options.format ?? texture.format
+					texture.magFilter = options.magFilter;
+					texture.minFilter = options.minFilter ?? texture.minFilter
+					texture.wrapS = options.wrapS ?? texture.wrapS;
+					texture.wrapT = options.wrapT ?? texture.wrapT;
+					texture.wrapR = options.wrapR ?? texture.wrapR;
+					texture.anisotropy = options.anisotropy ?? texture.anisotropy;
+					texture.colorSpace = options.colorSpace ?? texture.colorSpace;
+					applyAttachmentOptions(texture, options.attachments?.[i]);
+				}
 				target.samples = options.msaaSamples ?? target.samples;
-				target.texture.colorSpace = options.colorSpace ?? target.texture.colorSpace;
 				target.depthBuffer = options.depthBuffer ?? false;
 				target.depthTexture = options.depthTexture ?? target.depthTexture;
 			}
@@ -162,21 +309,11 @@ export default class RenderTargetStore {
 				// target.setSize(textureWidth, textureHeight);
 				// target.texture.width = target.width;
 				// target.texture.height = target.height;
-				let newTarget: RenderTarget = new WebGLRenderTarget(textureWidth, textureHeight, {
-					anisotropy: target.texture.anisotropy,
-					colorSpace: target.texture.colorSpace as ColorSpace,
-					depthBuffer: target.depthBuffer,
-					depthTexture: target.depthTexture,
-					format: target.texture.format as PixelFormat,
-					generateMipmaps: target.texture.generateMipmaps,
-					magFilter: target.texture.magFilter,
-					minFilter: target.texture.minFilter,
-					samples: target.samples,
-					type: target.texture.type,
-					wrapS: target.texture.wrapS,
-					wrapT: target.texture.wrapT,
-				}) as RenderTarget;
+				const dimension = options?.dimension ?? getDimension(target);
+				const depth = options?.depth != null ? Math.max(1, Math.round(options.depth)) : target.depth;
+				let newTarget = createMatchingRenderTarget(target, dimension, textureWidth, textureHeight, depth, options?.count ?? target.textures.length);
 				newTarget.name = key;
+				newTarget.lastUsedFrame = this._frame;
 
 				// console.info(`RenderTargetStore reallocating render target ${key} to ${textureWidth}x${textureHeight}, ${newTarget.samples} samples, type ${newTarget.texture.type}`, target.texture);
 
@@ -191,9 +328,12 @@ export default class RenderTargetStore {
 				// clear old target
 				target.dispose();
 				target = newTarget;
+				this.enforceMemoryBudget();
 			}
 		}
 
+		target.lastUsedFrame = this._frame;
+
 		return target;
 	}
 
@@ -205,6 +345,23 @@ export default class RenderTargetStore {
 		}
 	}
 
+	/**
+	 * Replace every target with a new one of the same description, contents are lost. Used after a WebGL context restore so no target refers to GPU resources of the lost context
+	 */
+	reallocateAll() {
+		for (let key in this.renderTargets) {
+			const target = this.renderTargets[key];
+			const newTarget = createMatchingRenderTarget(target, getDimension(target), target.width, target.height, target.depth, target.textures.length);
+			newTarget.name = key;
+			newTarget.lastUsedFrame = target.lastUsedFrame;
+			if (target.texture.mipmaps != null && target.texture.mipmaps.length > 0) {
+				initMipmapArray(newTarget);
+			}
+			this.renderTargets[key] = newTarget;
+			target.dispose();
+		}
+	}
+
 	clearAndDisposeAll() {
 		for (let name in this.renderTargets) {
 			let target = this.renderTargets[name];
@@ -235,6 +392,37 @@ export default class RenderTargetStore {
 		return store;
 	}
 
+	/**
+	 * Estimated GPU memory of a render target: every mip level and layer of every color texture,
+	 * plus the multisampled color and depth renderbuffers. Depth textures are assumed to be owned elsewhere
+	 */
+	static getRenderTargetBytes(target: WebGLRenderTarget): number {
+		const basePixels = target.width * target.height * target.depth;
+		const mipmapCount = getMipmapCount(target);
+		const is3D = getDimension(target) === '3d';
+		let pixels = 0;
+		for (let level = 0; level < mipmapCount; level++) {
+			// 3D textures are also halved in depth per level, array layers are not
+			const layers = is3D ? Math.max(1, target.depth >> level) : target.depth;
+			pixels += Math.max(1, target.width >> level) * Math.max(1, target.height >> level) * layers;
+		}
+
+		let bytes = 0;
+		for (let texture of target.textures) {
+			const bytesPerPixel = getBytesPerPixel(texture.format as PixelFormat, texture.type);
+			bytes += pixels * bytesPerPixel;
+			// multisampled targets render into a renderbuffer that's resolved to the texture
+			bytes += basePixels * bytesPerPixel * target.samples;
+		}
+
+		// 24-bit depth (+ 8-bit stencil) renderbuffer
+		if (target.depthBuffer && (target.depthTexture == null || target.samples > 0)) {
+			bytes += basePixels * 4 * Math.max(1, target.samples);
+		}
+
+		return bytes;
+	}
+
 	static getOptionsFromRenderTarget(target: RenderTarget): RenderTargetStoreOptions {
 		return {
 			powerOfTwoMode: PowerOfTwoMode.None,
@@ -255,6 +443,74 @@ export default class RenderTargetStore {
 
 const storeSymbol = Symbol('RenderTargetStore');
 
+function createRenderTarget(dimension: RenderTargetDimension, width: number, height: number, depth: number, options: RenderTargetOptions): RenderTarget {
+	switch (dimension) {
+		case 'array': return new WebGLArrayRenderTarget(width, height, depth, options) as WebGLRenderTarget as RenderTarget;
+		case '3d': return new WebGL3DRenderTarget(width, height, depth, options) as WebGLRenderTarget as RenderTarget;
+		default: return new WebGLRenderTarget(width, height, options) as RenderTarget;
+	}
+}
+
+function createMatchingRenderTarget(target: RenderTarget, dimension: RenderTargetDimension, width: number, height: number, depth: number, count: number): RenderTarget {
+	const newTarget = createRenderTarget(dimension, width, height, depth, {
+		anisotropy: target.texture.anisotropy,
+		colorSpace: target.texture.colorSpace as ColorSpace,
+		depthBuffer: target.depthBuffer,
+		depthTexture: target.depthTexture,
+		format: target.texture.format as PixelFormat,
+		generateMipmaps: target.texture.generateMipmaps,
+		magFilter: target.texture.magFilter,
+		minFilter: target.texture.minFilter,
+		samples: target.samples,
+		type: target.texture.type,
+		wrapS: target.texture.wrapS,
+		wrapT: target.texture.wrapT,
+		count,
+	});
+	// attachments may differ from the first
+	for (let i = 0; i < newTarget.textures.length; i++) {
+		copyTextureSettings(target.textures[Math.min(i, target.textures.length - 1)], newTarget.textures[i]);
+	}
+	return newTarget;
+}
+
+function getDimension(target: WebGLRenderTarget): RenderTargetDimension {
+	if ((target as WebGL3DRenderTarget).isWebGL3DRenderTarget) return '3d';
+	if ((target as WebGLArrayRenderTarget).isWebGLArrayRenderTarget) return 'array';
+	return '2d';
+}
+
+function applyAttachmentOptions(texture: Texture, attachment: RenderTargetAttachmentOptions | undefined) {
+	if (attachment == null) return;
+	texture.type = attachment.type ?? texture.type;
+	texture.format = attachment.format ?? texture.format;
+	texture.magFilter = attachment.magFilter ?? texture.magFilter;
+	texture.minFilter = attachment.minFilter ?? texture.minFilter;
+}
+
+function copyTextureSettings(source: LayeredTexture, target: LayeredTexture) {
+	target.type = source.type;
+	target.format = source.format;
+	target.internalFormat = source.internalFormat;
+	target.magFilter = source.magFilter;
+	target.minFilter = source.minFilter;
+	target.wrapS = source.wrapS;
+	target.wrapT = source.wrapT;
+	target.wrapR = source.wrapR;
+	target.anisotropy = source.anisotropy;
+	target.colorSpace = source.colorSpace;
+	target.name = source.name;
+}
+
+function getMipmapCount(target: WebGLRenderTarget) {
+	const texture = target.texture;
+	if (texture.mipmaps != null && texture.mipmaps.length > 0) {
+		return texture.mipmaps.length;
+	}
+	const generatesMipmaps = texture.generateMipmaps && texture.minFilter !== NearestFilter && texture.minFilter !== LinearFilter;
+	return generatesMipmaps ? Math.floor(Math.log2(Math.max(target.width, target.height))) + 1 : 1;
+}
+
 export function initMipmapArray(target: WebGLRenderTarget) {
 	const mipmapCount = Math.floor(Math.log2(Math.max(target.width, target.height))) + 1;
 	target.texture.mipmaps = new Array(mipmapCount).fill({});
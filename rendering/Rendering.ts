@@ -1,60 +1,150 @@
-import { Camera, Color, ColorRepresentation, ColorSpace, IUniform, Layers, Material, Mesh, NoToneMapping, Object3D, OrthographicCamera, PixelFormat, Scene, Texture, ToneMapping, Vector4, WebGLRenderer, WebGLRenderTarget } from "three";
+import { ByteType, Camera, Color, ColorRepresentation, ColorSpace, FloatType, GLSL3, GLSLVersion, HalfFloatType, IntType, IUniform, Layers, Material, Matrix3, Mesh, NoToneMapping, Object3D, OrthographicCamera, PixelFormat, RedFormat, RedIntegerFormat, RGBAIntegerFormat, RGFormat, RGIntegerFormat, Scene, ShortType, Texture, TextureDataType, ToneMapping, UnsignedIntType, UnsignedShortType, Vector4, WebGL3DRenderTarget, WebGLArrayRenderTarget, WebGLRenderer, WebGLRenderTarget } from "three";
+import { CpuTextureSampler } from "../interpolation/CpuTextureSampler.js";
 import { CopyMaterial, RawCopyMaterial } from "../materials/CopyMaterial.js";
 import { RawShaderMaterial } from "../materials/RawShaderMaterial.js";
 import { ShaderMaterial } from "../materials/ShaderMaterial.js";
 import ClipSpaceTriangle from "../objects/ClipSpaceTriangle.js";
 import { RGBASwizzle } from "../materials/Swizzle.js";
 import { isObjectWidthMaterial, ObjectUtils, ObjectWidthMaterial } from "../utils/ObjectUtils.js";
+import { getUniformSignature } from "../materials/UniformDeclarations.js";
+import { getChannelCount, getTypedArrayConstructor, halfFloatArrayToFloat32Array } from "../utils/TextureUtils.js";
 
 export namespace Rendering {
 
-	const _renderPassSnapshot = {
-		renderTarget: null as WebGLRenderTarget | null,
-		activeMipmapLevel: 0,
-		activeCubeFace: 0,
+	type GlobalState = {
+		renderTarget: WebGLRenderTarget | null,
+		activeMipmapLevel: number,
+		activeCubeFace: number,
+		viewport: Vector4,
+		scissor: Vector4,
+		scissorTest: boolean,
 		clearColor: {
-			rgb: new Color(),
-			alpha: 0,
+			rgb: Color,
+			alpha: number,
 		},
-		viewport: new Vector4(),
+		toneMapping: ToneMapping,
+		toneMappingExposure: number,
+		autoClear: boolean,
 	}
 
-	const _tempGlobalState = {
-		renderTarget: null as WebGLRenderTarget | null,
-		activeMipmapLevel: 0,
-		activeCubeFace: 0,
-		clearColor: {
-			rgb: new Color(),
-			alpha: 0,
-		},
-		viewport: new Vector4(),
+	function createState(): GlobalState {
+		return {
+			renderTarget: null,
+			activeMipmapLevel: 0,
+			activeCubeFace: 0,
+			viewport: new Vector4(),
+			scissor: new Vector4(),
+			scissorTest: false,
+			clearColor: {
+				rgb: new Color(),
+				alpha: 0,
+			},
+			toneMapping: NoToneMapping,
+			toneMappingExposure: 1,
+			autoClear: true,
+		}
+	}
+
+	/**
+	 * Saved states per renderer. State objects are reused so pushing doesn't allocate once the stack has grown
+	 */
+	const _stateStacks = new WeakMap<WebGLRenderer, { states: GlobalState[], depth: number }>();
+
+	function getStateStack(renderer: WebGLRenderer) {
+		let stack = _stateStacks.get(renderer);
+		if (stack == null) {
+			stack = { states: [], depth: 0 };
+			_stateStacks.set(renderer, stack);
+		}
+		return stack;
+	}
+
+	/**
+	 * When true, unbalanced `pushState()` / `popState()` calls are reported with `console.warn`
+	 * 
+	 * Enabled by `PhysicallyBasedViewer` in dev mode
+	 */
+	export let validateStateStack = false;
+
+	/**
+	 * Save render target, mip level, cube face, viewport, scissor, clear color, tone mapping and autoClear
+	 * 
+	 * Every push must be matched by a `popState()`. Pushes can be nested, so a function that saves state can be called from another that also saves state
+	 * 
+	 * @returns stack depth before the push, pass to `popState()` to validate the pop matches this push
+	 */
+	export function pushState(renderer: WebGLRenderer): number {
+		const stack = getStateStack(renderer);
+		let state = stack.states[stack.depth];
+		if (state == null) {
+			state = createState();
+			stack.states[stack.depth] = state;
+		}
+		state.renderTarget = renderer.getRenderTarget();
+		state.activeMipmapLevel = renderer.getActiveMipmapLevel();
+		state.activeCubeFace = renderer.getActiveCubeFace();
+		renderer.getViewport(state.viewport);
+		renderer.getScissor(state.scissor);
+		state.scissorTest = renderer.getScissorTest();
+		renderer.getClearColor(state.clearColor.rgb);
+		state.clearColor.alpha = renderer.getClearAlpha();
+		state.toneMapping = renderer.toneMapping;
+		state.toneMappingExposure = renderer.toneMappingExposure;
+		state.autoClear = renderer.autoClear;
+		return stack.depth++;
 	}
 
-	function resetState(state: typeof _tempGlobalState) {
+	/**
+	 * Restore the state saved by the last `pushState()`
+	 * 
+	 * @param expectedDepth value returned by the matching `pushState()`, checked when `validateStateStack` is enabled
+	 */
+	export function popState(renderer: WebGLRenderer, expectedDepth?: number) {
+		const stack = getStateStack(renderer);
+		if (stack.depth === 0) {
+			if (validateStateStack) {
+				console.warn('Rendering: popState() called without a matching pushState()');
+			}
+			return;
+		}
+		stack.depth--;
+		if (validateStateStack && expectedDepth != null && expectedDepth !== stack.depth) {
+			console.warn(`Rendering: popState() expected stack depth ${expectedDepth} but popped depth ${stack.depth}, a pushState() is missing its popState()`);
+		}
+		const state = stack.states[stack.depth];
+		renderer.setRenderTarget(state.renderTarget, state.activeCubeFace, state.activeMipmapLevel);
+		renderer.setViewport(state.viewport.x, state.viewport.y, state.viewport.z, state.viewport.w);
+		renderer.setScissor(state.scissor.x, state.scissor.y, state.scissor.z, state.scissor.w);
+		renderer.setScissorTest(state.scissorTest);
+		renderer.setClearColor(state.clearColor.rgb, state.clearColor.alpha);
+		renderer.toneMapping = state.toneMapping;
+		renderer.toneMappingExposure = state.toneMappingExposure;
+		renderer.autoClear = state.autoClear;
+		// don't hold references to targets that may be disposed
 		state.renderTarget = null;
-		state.activeMipmapLevel = 0;
-		state.activeCubeFace = 0;
-		state.clearColor.rgb.set(0, 0, 0);
-		state.clearColor.alpha = 0;
-		state.viewport.set(0, 0, 0, 0);
+	}
+
+	/**
+	 * Number of states currently pushed for this renderer
+	 */
+	export function getStateStackDepth(renderer: WebGLRenderer) {
+		return _stateStacks.get(renderer)?.depth ?? 0;
 	}
 
 	const SavedMaterialSymbol = Symbol('SavedMaterial');
 
+	/**
+	 * Alias of `pushState()`
+	 */
 	export function saveGlobalState(renderer: WebGLRenderer) {
-		// update _renderPassSnapshot
-		_tempGlobalState.renderTarget = renderer.getRenderTarget();
-		_tempGlobalState.activeMipmapLevel = renderer.getActiveMipmapLevel();
-		_tempGlobalState.activeCubeFace = renderer.getActiveCubeFace();
-		renderer.getClearColor(_tempGlobalState.clearColor.rgb);
-		_tempGlobalState.clearColor.alpha = renderer.getClearAlpha();
-		renderer.getViewport(_tempGlobalState.viewport);
+		return pushState(renderer);
 	}
 
-	export function restoreGlobalState(renderer: WebGLRenderer) {
-		renderer.setRenderTarget(_tempGlobalState.renderTarget, _tempGlobalState.activeCubeFace, _tempGlobalState.activeMipmapLevel);
-		renderer.setViewport(_tempGlobalState.viewport.x, _tempGlobalState.viewport.y, _tempGlobalState.viewport.z, _tempGlobalState.viewport.w);
-		renderer.setClearColor(_tempGlobalState.clearColor.rgb, _tempGlobalState.clearColor.alpha);
+	/**
+	 * Alias of `popState()`
+	 */
+	export function restoreGlobalState(renderer: WebGLRenderer, expectedDepth?: number) {
+		popState(renderer, expectedDepth);
 	}
 
 	export type RenderPassOptions = {
@@ -72,6 +162,10 @@ export namespace Rendering {
 		 * target's cube face to render to if target is a cube texture
 		 */
 		targetCubeFace?: number,
+		/**
+		 * layer to render to if target is a `WebGLArrayRenderTarget`, or slice if a `WebGL3DRenderTarget`
+		 */
+		targetLayer?: number,
 		/**
 		 * @default NoToneMapping
 		 */
@@ -102,6 +196,12 @@ export namespace Rendering {
 		 * Override viewport, by default it will spans the entire target
 		 */
 		viewport?: Vector4,
+		/**
+		 * Restrict clearing and drawing to this rect, in the same units as `viewport`. `true` uses `viewport`
+		 *
+		 * Needed when several viewports share a target, otherwise clears affect the whole target
+		 */
+		scissor?: Vector4 | boolean,
 		/**
 		 * If provided the scene will be rendered with this material
 		 */
@@ -126,11 +226,8 @@ export namespace Rendering {
 		let { target, scene, camera, viewport, clearColor, clearDepth, clearStencil, overrideMaterial, layers } = options;
 
 		// save global state
-		_renderPassSnapshot.renderTarget = renderer.getRenderTarget();
-		_renderPassSnapshot.activeMipmapLevel = renderer.getActiveMipmapLevel();
-		_renderPassSnapshot.activeCubeFace = renderer.getActiveCubeFace();
+		const stateDepth = options.restoreGlobalState === true ? pushState(renderer) : -1;
 		let _autoClear = renderer.autoClear;
-		renderer.getViewport(_renderPassSnapshot.viewport);
 		let _toneMapping = renderer.toneMapping;
 		let _toneMappingExposure = renderer.toneMappingExposure;
 		let _layersMask = camera.layers.mask;
@@ -142,7 +239,8 @@ export namespace Rendering {
 
 		const targetMipmapLevel = options.targetMipmapLevel ?? 0;
 
-		renderer.setRenderTarget(target, options.targetCubeFace, targetMipmapLevel);
+		// three.js uses the cube face argument as the layer for array and 3D targets
+		renderer.setRenderTarget(target, options.targetLayer ?? options.targetCubeFace, targetMipmapLevel);
 
 		if (viewport != null) {
 			renderer.setViewport(viewport.x, viewport.y, viewport.z, viewport.w);
@@ -169,6 +267,16 @@ export namespace Rendering {
 			const dpr = renderer.getPixelRatio();
 			renderer.setViewport(0, 0, gl.drawingBufferWidth / dpr, gl.drawingBufferHeight / dpr);
 		}
+
+		const scissor = options.scissor === true ? viewport : options.scissor || undefined;
+		let _scissor: Vector4 | undefined;
+		let _scissorTest = false;
+		if (scissor != null) {
+			_scissor = renderer.getScissor(new Vector4());
+			_scissorTest = renderer.getScissorTest();
+			renderer.setScissor(scissor.x, scissor.y, scissor.z, scissor.w);
+			renderer.setScissorTest(true);
+		}
 		
 		// set override material (storing the previous one)
 		let _savedOverrideMaterialGlobal: unknown; // this is let unset if the overrideMaterial is not used
@@ -217,8 +325,6 @@ export namespace Rendering {
 
 		// clear options
 		if (clearColor !== false) {
-			renderer.getClearColor(_renderPassSnapshot.clearColor.rgb);
-			_renderPassSnapshot.clearColor.alpha = renderer.getClearAlpha();
 			renderer.setClearColor(clearColor.rgb, clearColor.alpha);
 		}
 
@@ -239,11 +345,7 @@ export namespace Rendering {
 			// if we only use Rendering.renderPass() rather than renderer.render(), we don't need to restore the global state
 			// changing renderTarget can be expensive, so we should avoid it if possible
 			if (options.restoreGlobalState === true) {
-				renderer.setRenderTarget(_renderPassSnapshot.renderTarget, _renderPassSnapshot.activeCubeFace, _renderPassSnapshot.activeMipmapLevel);
-				renderer.setViewport(_renderPassSnapshot.viewport.x, _renderPassSnapshot.viewport.y, _renderPassSnapshot.viewport.z, _renderPassSnapshot.viewport.w);
-				if (clearColor !== false) {
-					renderer.setClearColor(_renderPassSnapshot.clearColor.rgb, _renderPassSnapshot.clearColor.alpha);
-				}
+				popState(renderer, stateDepth);
 			}
 
 			// restore override material (only if changed)
@@ -273,6 +375,10 @@ export namespace Rendering {
 			renderer.toneMapping = _toneMapping;
 			renderer.toneMappingExposure = _toneMappingExposure;
 			camera.layers.mask = _layersMask;
+			if (_scissor != null && options.restoreGlobalState !== true) {
+				renderer.setScissor(_scissor.x, _scissor.y, _scissor.z, _scissor.w);
+				renderer.setScissorTest(_scissorTest);
+			}
 		}
 	}
 
@@ -297,6 +403,7 @@ export namespace Rendering {
 		target: WebGLRenderTarget | null,
 		targetMipmapLevel?: number,
 		targetCubeFace?: number,
+		targetLayer?: number,
 		shader: Material | ShaderMaterial<U> | RawShaderMaterial<U>,
 		uniforms?: UniformValues<U>,
 		restoreGlobalState: boolean,
@@ -330,6 +437,7 @@ export namespace Rendering {
 			target: options.target,
 			targetMipmapLevel: options.targetMipmapLevel,
 			targetCubeFace: options.targetCubeFace,
+			targetLayer: options.targetLayer,
 			camera: fragmentPassCamera,
 			scene: fragmentPassMesh,
 			clearColor: options.clearColor ?? fragmentPassClearColor,
@@ -343,22 +451,46 @@ export namespace Rendering {
 		});
 	}
 
-	const shaderPassMaterialCache: { [key: string]: Material } = {};
+	const shaderPassMaterialCache: { [key: string]: { material: ShaderMaterial, uniformSignature: string } } = {};
+	/**
+	 * Fragment pass from a GLSL string. Materials are cached by `shaderKey` (or the fragment shader) and rebuilt when the set of uniforms changes
+	 */
 	export function shaderPass(
 		renderer: WebGLRenderer,
 		options: Omit<Rendering.ShaderPassOptions, 'shader'> & {
 			shaderKey?: string,
 			/**
-			 * Varying `varying vec2 vUv;` is defined for you
+			 * Varying `varying vec2 vUv;` is defined for you, as are declarations for `uniforms` whose type can be inferred from their value
+			 */
+			fragmentShader: string,
+			/**
+			 * With `GLSL3`, write to the named `outputs` rather than `gl_FragColor`
 			 */
-			fragmentShader: string
+			glslVersion?: GLSLVersion | null,
+			/**
+			 * Names of `vec4` fragment outputs, declared as `layout(location = i) out` in order. Requires `GLSL3`
+			 */
+			outputs?: string[],
 		}
 	) {
-		const shaderKey = options.shaderKey ?? options.fragmentShader;
-		let shader = shaderPassMaterialCache[shaderKey];
-		if (!shader) {
-			shader = new ShaderMaterial({
-				fragmentShader: `varying vec2 vUv;` + options.fragmentShader,
+		const uniformValues: Record<string, unknown> = options.uniforms ?? {};
+		const outputs = options.outputs ?? [];
+		if (outputs.length > 0 && options.glslVersion !== GLSL3) {
+			throw new Error(`Rendering: shaderPass outputs (${outputs.join(', ')}) require glslVersion GLSL3`);
+		}
+
+		const shaderKey = `${options.shaderKey ?? options.fragmentShader}|${options.glslVersion ?? ''}|${outputs.join(',')}`;
+		const uniformSignature = getUniformSignature(uniformValues);
+		let cached = shaderPassMaterialCache[shaderKey];
+		if (cached?.uniformSignature !== uniformSignature) {
+			cached?.material.dispose();
+			const uniforms: Record<string, IUniform> = {};
+			for (let key in uniformValues) {
+				uniforms[key] = { value: uniformValues[key] };
+			}
+			const outputDeclarations = outputs.map((name, i) => `layout(location = ${i}) out highp vec4 ${name};`).join('\n');
+			const material = new ShaderMaterial({
+				fragmentShader: `${outputDeclarations}\nvarying vec2 vUv;\n` + options.fragmentShader,
 				vertexShader: /*glsl*/`
 					varying vec2 vUv;
 					void main() {
@@ -367,17 +499,17 @@ export namespace Rendering {
 					}
 				`,
 				precision: 'highp',
-				uniforms: {},
+				glslVersion: options.glslVersion ?? null,
+				uniforms,
+				declareUniforms: true,
 			});
-			for (let key in options.uniforms ?? {}) {
-				(shader as any).uniforms[key] = { value: options.uniforms?.[key] };
-			}
-			shaderPassMaterialCache[shaderKey] = shader;
+			cached = { material, uniformSignature };
+			shaderPassMaterialCache[shaderKey] = cached;
 		}
 
 		return Rendering.shaderMaterialPass(renderer, {
 			...options,
-			shader,
+			shader: cached.material,
 		});
 	}
 
@@ -392,50 +524,127 @@ export namespace Rendering {
 		toneMappingExposure?: number,
 		targetMipmapLevel?: number,
 		targetCubeFace?: number,
+		/**
+		 * Destination rectangle, by default it spans the entire target
+		 */
 		viewport?: Vector4,
+		/**
+		 * Region of the source to copy in UV units (x, y, width, height)
+		 * @default (0, 0, 1, 1)
+		 */
+		sourceRect?: Vector4,
+		/**
+		 * How the source region is fitted to the destination when their aspect ratios differ
+		 * - `fill` stretches to the destination
+		 * - `contain` letterboxes, pixels outside the fitted region are not written
+		 * - `cover` crops the source
+		 * @default 'fill'
+		 */
+		fit?: BlitFit,
+		flipX?: boolean,
+		flipY?: boolean,
+		/**
+		 * Applied to source UVs after the source region, fit and flips
+		 */
+		uvTransform?: Matrix3,
 		restoreGlobalState: boolean,
 		clear?: boolean,
 	}
 
-	const rawCopyMaterials: { [swizzle: string]: RawCopyMaterial } = {
+	export type BlitFit = 'fill' | 'contain' | 'cover';
+
+	const rawCopyMaterials: { [variant: string]: RawCopyMaterial } = {
 	}
-	const copyMaterials: { [swizzle: string]: CopyMaterial } = {
+	const copyMaterials: { [variant: string]: CopyMaterial } = {
 	}
+	const _blitUvTransform = new Matrix3();
+	const _blitViewport = new Vector4();
 	/**
 	 * Copy texture to target using fragment shader pass
 	 */
 	export function blit(renderer: WebGLRenderer, options: BlitOptions) {
 		const swizzle = options.swizzle ?? '';
 		const colorTransformRequired = options.applyOutputColorSpace || options.toneMapping;
+
+		let viewport = options.viewport;
+		let uvTransform: Matrix3 | null = null;
+		if (options.sourceRect != null || (options.fit != null && options.fit !== 'fill') || options.flipX || options.flipY || options.uvTransform != null) {
+			let sx = options.sourceRect?.x ?? 0;
+			let sy = options.sourceRect?.y ?? 0;
+			let sw = options.sourceRect?.z ?? 1;
+			let sh = options.sourceRect?.w ?? 1;
+
+			if (options.fit === 'contain' || options.fit === 'cover') {
+				const destination = viewport != null ? _blitViewport.copy(viewport) : getFullViewport(renderer, options.target, options.targetMipmapLevel ?? 0, _blitViewport);
+				const sourceSize = getTextureSize(options.source);
+				const sourceAspect = (sw * sourceSize.width) / (sh * sourceSize.height);
+				const destinationAspect = destination.z / destination.w;
+				if (options.fit === 'contain') {
+					if (sourceAspect > destinationAspect) {
+						const height = destination.z / sourceAspect;
+						destination.y += (destination.w - height) * 0.5;
+						destination.w = height;
+					} else {
+						const width = destination.w * sourceAspect;
+						destination.x += (destination.z - width) * 0.5;
+						destination.z = width;
+					}
+					viewport = destination;
+				} else {
+					if (sourceAspect > destinationAspect) {
+						const width = sw * destinationAspect / sourceAspect;
+						sx += (sw - width) * 0.5;
+						sw = width;
+					} else {
+						const height = sh * sourceAspect / destinationAspect;
+						sy += (sh - height) * 0.5;
+						sh = height;
+					}
+				}
+			}
+
+			uvTransform = _blitUvTransform.set(
+				options.flipX ? -sw : sw, 0, options.flipX ? sx + sw : sx,
+				0, options.flipY ? -sh : sh, options.flipY ? sy + sh : sy,
+				0, 0, 1,
+			);
+			if (options.uvTransform != null) {
+				uvTransform.premultiply(options.uvTransform);
+			}
+		}
+
+		// materials are cached per variant so switching doesn't recompile
+		const variant = uvTransform != null ? `${swizzle}:uv` : swizzle;
 		
-		let shader: Material;
+		let shader: CopyMaterial | RawCopyMaterial;
 
 		if (colorTransformRequired) {
-			let copyMaterial = copyMaterials[swizzle];
+			let copyMaterial = copyMaterials[variant];
 			if (copyMaterial == null) {
-				copyMaterial = new CopyMaterial(swizzle);
-				copyMaterials[swizzle] = copyMaterial;
+				copyMaterial = new CopyMaterial(swizzle, uvTransform != null);
+				copyMaterials[variant] = copyMaterial;
 			}
-			copyMaterial.uniforms.source.value = options.source;
-			copyMaterial.uniforms.sourceMipmapLevel.value = options.sourceMipmapLevel ?? 0;
 			shader = copyMaterial;
 		} else {
-			let rawCopyMaterial = rawCopyMaterials[swizzle];
+			let rawCopyMaterial = rawCopyMaterials[variant];
 			if (rawCopyMaterial == null) {
-				rawCopyMaterial = new RawCopyMaterial(swizzle);
-				rawCopyMaterials[swizzle] = rawCopyMaterial;
+				rawCopyMaterial = new RawCopyMaterial(swizzle, uvTransform != null);
+				rawCopyMaterials[variant] = rawCopyMaterial;
 			}
-			rawCopyMaterial.uniforms.source.value = options.source;
-			rawCopyMaterial.uniforms.sourceMipmapLevel.value = options.sourceMipmapLevel ?? 0;
 			shader = rawCopyMaterial;
 		}
+		shader.uniforms.source.value = options.source;
+		shader.uniforms.sourceMipmapLevel.value = options.sourceMipmapLevel ?? 0;
+		if (uvTransform != null) {
+			shader.uniforms.uvTransform.value.copy(uvTransform);
+		}
 		
 		shaderMaterialPass(renderer, {
 			shader,
 			target: options.target,
 			targetMipmapLevel: options.targetMipmapLevel,
 			targetCubeFace: options.targetCubeFace,
-			viewport: options.viewport,
+			viewport,
 			toneMapping: options.toneMapping ?? NoToneMapping,
 			toneMappingExposure: options.toneMappingExposure,
 			restoreGlobalState: options.restoreGlobalState,
@@ -477,6 +686,192 @@ export namespace Rendering {
 		gl.generateMipmap(gl.TEXTURE_2D);
 	}
 
+	/**
+	 * Copy every color attachment of `source` into `target` with `blitFramebuffer`, scaling with linear filtering if sizes differ
+	 * 
+	 * Layers of array and 3D targets are copied up to the smaller depth. Integer formats can only be copied between targets of the same size
+	 * 
+	 * Use in a `RenderTargetStore` reallocate callback to preserve content
+	 */
+	export function copyRenderTarget(renderer: WebGLRenderer, source: WebGLRenderTarget, target: WebGLRenderTarget) {
+		const gl = renderer.getContext() as WebGL2RenderingContext;
+		renderer.initRenderTarget(source);
+		renderer.initRenderTarget(target);
+
+		// bindings are restored exactly so three.js's framebuffer cache stays valid
+		const readBinding = gl.getParameter(gl.READ_FRAMEBUFFER_BINDING);
+		const drawBinding = gl.getParameter(gl.DRAW_FRAMEBUFFER_BINDING);
+		const scissorTest = gl.isEnabled(gl.SCISSOR_TEST);
+		const readFramebuffer = gl.createFramebuffer();
+		const drawFramebuffer = gl.createFramebuffer();
+
+		const count = Math.min(source.textures.length, target.textures.length);
+		const layers = Math.min(source.depth, target.depth);
+		const filter = source.width === target.width && source.height === target.height ? gl.NEAREST : gl.LINEAR;
+
+		try {
+			gl.disable(gl.SCISSOR_TEST);
+			gl.bindFramebuffer(gl.READ_FRAMEBUFFER, readFramebuffer);
+			gl.bindFramebuffer(gl.DRAW_FRAMEBUFFER, drawFramebuffer);
+			for (let i = 0; i < count; i++) {
+				for (let layer = 0; layer < layers; layer++) {
+					attachColorLayer(renderer, gl.READ_FRAMEBUFFER, source, source.textures[i], layer);
+					attachColorLayer(renderer, gl.DRAW_FRAMEBUFFER, target, target.textures[i], layer);
+					gl.blitFramebuffer(
+						0, 0, source.width, source.height,
+						0, 0, target.width, target.height,
+						gl.COLOR_BUFFER_BIT, filter
+					);
+				}
+			}
+		} finally {
+			gl.bindFramebuffer(gl.READ_FRAMEBUFFER, readBinding);
+			gl.bindFramebuffer(gl.DRAW_FRAMEBUFFER, drawBinding);
+			gl.deleteFramebuffer(readFramebuffer);
+			gl.deleteFramebuffer(drawFramebuffer);
+			if (scissorTest) {
+				gl.enable(gl.SCISSOR_TEST);
+			}
+		}
+	}
+
+	function attachColorLayer(renderer: WebGLRenderer, framebufferTarget: GLenum, renderTarget: WebGLRenderTarget, texture: Texture, layer: number) {
+		const gl = renderer.getContext() as WebGL2RenderingContext;
+		const webglTexture = (renderer.properties.get(texture) as any).__webglTexture;
+		if ((renderTarget as WebGL3DRenderTarget).isWebGL3DRenderTarget || (renderTarget as WebGLArrayRenderTarget).isWebGLArrayRenderTarget) {
+			gl.framebufferTextureLayer(framebufferTarget, gl.COLOR_ATTACHMENT0, webglTexture, 0, layer);
+		} else {
+			gl.framebufferTexture2D(framebufferTarget, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, webglTexture, 0);
+		}
+	}
+
+	export type PixelRect = {
+		x: number,
+		y: number,
+		width: number,
+		height: number,
+	}
+
+	export type ReadPixelsArray = Uint8Array | Int8Array | Uint16Array | Int16Array | Uint32Array | Int32Array | Float32Array;
+
+	export type ReadPixelsOptions = {
+		/** Cube face to read for cube targets, or layer for array and 3D targets */
+		cubeFace?: number,
+		/** Return the pixels wrapped in a `CpuTextureSampler` instead of the array */
+		sampler?: boolean,
+	}
+
+	/**
+	 * Read pixels of a render target without stalling the GPU pipeline
+	 * 
+	 * The read is queued into a pixel-pack buffer and resolved once a fence signals the GPU has finished, falling back to a synchronous read if fences are unavailable
+	 * 
+	 * The array type matches the texture type except half floats, which are decoded to a `Float32Array`. Pixels are tightly packed with the texture's channel count, bottom row first
+	 * 
+	 * @param rect region in pixels of the mip level, defaults to the whole level
+	 */
+	export function readPixelsAsync(renderer: WebGLRenderer, target: WebGLRenderTarget, rect?: PixelRect | null, mipLevel?: number, options?: ReadPixelsOptions & { sampler?: false }): Promise<ReadPixelsArray>;
+	export function readPixelsAsync(renderer: WebGLRenderer, target: WebGLRenderTarget, rect: PixelRect | null | undefined, mipLevel: number | undefined, options: ReadPixelsOptions & { sampler: true }): Promise<CpuTextureSampler>;
+	export async function readPixelsAsync(renderer: WebGLRenderer, target: WebGLRenderTarget, rect: PixelRect | null = null, mipLevel = 0, options: ReadPixelsOptions = {}): Promise<ReadPixelsArray | CpuTextureSampler> {
+		const gl = renderer.getContext() as WebGL2RenderingContext;
+		const texture = target.texture;
+		const levelWidth = Math.max(1, target.width >> mipLevel);
+		const levelHeight = Math.max(1, target.height >> mipLevel);
+		const { x, y, width, height } = rect ?? { x: 0, y: 0, width: levelWidth, height: levelHeight };
+
+		if (x < 0 || y < 0 || width <= 0 || height <= 0 || x + width > levelWidth || y + height > levelHeight) {
+			throw new Error(`Rendering: readPixelsAsync rect (${x}, ${y}, ${width}, ${height}) is outside mip level ${mipLevel} (${levelWidth}x${levelHeight})`);
+		}
+		if (!renderer.capabilities.textureTypeReadable(texture.type)) {
+			throw new Error(`Rendering: readPixelsAsync cannot read texture type ${texture.type}`);
+		}
+
+		const textureFormat = texture.format as PixelFormat;
+		const channels = getChannelCount(textureFormat);
+		const type = getGLType(gl, texture.type);
+		let readChannels = channels;
+		let data: ReadPixelsArray = new Uint8Array(0);
+		let packBuffer: WebGLBuffer | null = null;
+		let sync: WebGLSync | null = null;
+
+		const depth = pushState(renderer);
+		try {
+			renderer.setRenderTarget(target, options.cubeFace ?? 0, mipLevel);
+			// multisampled targets are read from their resolved framebuffer
+			if (target.samples > 0 && mipLevel === 0 && !Array.isArray((renderer.properties.get(target) as any).__webglFramebuffer)) {
+				renderer.state.bindFramebuffer(gl.FRAMEBUFFER, (renderer.properties.get(target) as any).__webglFramebuffer);
+			}
+
+			// only RGBA is always readable, other formats are read as RGBA and compacted
+			const integer = textureFormat === RedIntegerFormat || textureFormat === RGIntegerFormat || textureFormat === RGBAIntegerFormat;
+			let format = getGLFormat(gl, textureFormat);
+			if (!renderer.capabilities.textureFormatReadable(textureFormat)) {
+				readChannels = 4;
+				format = integer ? gl.RGBA_INTEGER : gl.RGBA;
+			}
+
+			const ArrayConstructor = getTypedArrayConstructor(texture.type);
+			data = new ArrayConstructor(width * height * readChannels);
+
+			gl.pixelStorei(gl.PACK_ALIGNMENT, 1);
+			packBuffer = gl.createBuffer();
+			gl.bindBuffer(gl.PIXEL_PACK_BUFFER, packBuffer);
+			gl.bufferData(gl.PIXEL_PACK_BUFFER, data.byteLength, gl.STREAM_READ);
+			gl.readPixels(x, y, width, height, format, type, 0);
+			gl.bindBuffer(gl.PIXEL_PACK_BUFFER, null);
+			sync = gl.fenceSync(gl.SYNC_GPU_COMMANDS_COMPLETE, 0);
+			gl.flush();
+		} finally {
+			gl.pixelStorei(gl.PACK_ALIGNMENT, 4);
+			popState(renderer, depth);
+		}
+
+		try {
+			if (sync != null) {
+				await waitForSync(gl, sync);
+			}
+			// without a fence this blocks until the read completes
+			gl.bindBuffer(gl.PIXEL_PACK_BUFFER, packBuffer);
+			gl.getBufferSubData(gl.PIXEL_PACK_BUFFER, 0, data);
+			gl.bindBuffer(gl.PIXEL_PACK_BUFFER, null);
+		} finally {
+			gl.deleteSync(sync);
+			gl.deleteBuffer(packBuffer);
+		}
+
+		if (readChannels !== channels) {
+			const packed = new (data.constructor as new (length: number) => ReadPixelsArray)(width * height * channels);
+			for (let i = 0; i < width * height; i++) {
+				for (let c = 0; c < channels; c++) {
+					packed[i * channels + c] = data[i * readChannels + c];
+				}
+			}
+			data = packed;
+		}
+
+		if (texture.type === HalfFloatType) {
+			data = halfFloatArrayToFloat32Array(data as Uint16Array);
+		}
+
+		return options.sampler ? new CpuTextureSampler(data, width, height, channels) : data;
+	}
+
+	function waitForSync(gl: WebGL2RenderingContext, sync: WebGLSync, interval_ms = 4) {
+		return new Promise<void>((resolve, reject) => {
+			const poll = () => {
+				const status = gl.clientWaitSync(sync, 0, 0);
+				if (status === gl.WAIT_FAILED) {
+					reject(new Error('Rendering: readPixelsAsync fence wait failed, the context may have been lost'));
+				} else if (status === gl.TIMEOUT_EXPIRED) {
+					setTimeout(poll, interval_ms);
+				} else {
+					resolve();
+				}
+			};
+			poll();
+		});
+	}
+
 	export type ResizeTexture2DOptions = {
 		source: Texture,
 		width?: number,
@@ -524,20 +919,66 @@ export namespace Rendering {
 	 */
 	export function dispose() {
 		for (let key in shaderPassMaterialCache) {
-			shaderPassMaterialCache[key].dispose();
+			shaderPassMaterialCache[key].material.dispose();
 			delete shaderPassMaterialCache[key];
 		}
 		for (let key in rawCopyMaterials) {
 			rawCopyMaterials[key].dispose();
 			delete rawCopyMaterials[key];
 		}
-
-		resetState(_renderPassSnapshot);
-		resetState(_tempGlobalState);
+		for (let key in copyMaterials) {
+			copyMaterials[key].dispose();
+			delete copyMaterials[key];
+		}
 	}
 
 }
 
 function isScene(object: Object3D): object is Scene {
 	return (object as Scene).isScene;
-}
\ No newline at end of file
+}
+
+function getGLFormat(gl: WebGL2RenderingContext, format: PixelFormat): number {
+	switch (format) {
+		case RedFormat: return gl.RED;
+		case RGFormat: return gl.RG;
+		case RedIntegerFormat: return gl.RED_INTEGER;
+		case RGIntegerFormat: return gl.RG_INTEGER;
+		case RGBAIntegerFormat: return gl.RGBA_INTEGER;
+		default: return gl.RGBA;
+	}
+}
+
+function getGLType(gl: WebGL2RenderingContext, type: TextureDataType): number {
+	switch (type) {
+		case ByteType: return gl.BYTE;
+		case ShortType: return gl.SHORT;
+		case UnsignedShortType: return gl.UNSIGNED_SHORT;
+		case IntType: return gl.INT;
+		case UnsignedIntType: return gl.UNSIGNED_INT;
+		case FloatType: return gl.FLOAT;
+		case HalfFloatType: return gl.HALF_FLOAT;
+		default: return gl.UNSIGNED_BYTE;
+	}
+}
+
+/**
+ * Viewport spanning the whole target or canvas in the logical pixels expected by `renderer.setViewport()`
+ */
+function getFullViewport(renderer: WebGLRenderer, target: WebGLRenderTarget | null, mipmapLevel: number, out: Vector4) {
+	const dpr = renderer.getPixelRatio();
+	if (target != null) {
+		return out.set(0, 0, Math.max((target.width >> mipmapLevel) / dpr, 1), Math.max((target.height >> mipmapLevel) / dpr, 1));
+	} else {
+		const gl = renderer.getContext();
+		return out.set(0, 0, gl.drawingBufferWidth / dpr, gl.drawingBufferHeight / dpr);
+	}
+}
+
+function getTextureSize(texture: Texture) {
+	const image = texture.image as { width?: number, height?: number, videoWidth?: number, videoHeight?: number } | null;
+	return {
+		width: image?.videoWidth || image?.width || 1,
+		height: image?.videoHeight || image?.height || 1,
+	};
+}
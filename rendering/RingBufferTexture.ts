@@ -155,6 +155,14 @@ export class RingBufferTexture<T extends TextureDataType = TextureDataType> exte
         this.writeRow(dataTextureValues);
     }
 
+    /**
+     * Upload the whole CPU-side buffer on next use. Needed after a WebGL context restore, otherwise pending row updates would be the only data uploaded
+     */
+    reupload() {
+        this.clearUpdateRanges();
+        this.needsUpdate = true;
+    }
+
     getShader<T extends string>(samplerName: T): {
         /**
         * Add these uniforms to your ShaderMaterial uniforms object
@@ -0,0 +1,320 @@
+import { Vector2, Vector4, WebGLRenderer, WebGLRendererParameters } from "three";
+import type { OrbitControls } from "three/examples/jsm/controls/OrbitControls.js";
+import { PhysicallyBasedViewer, PhysicallyBasedViewerOptions } from "../PhysicallyBasedViewer.js";
+import { getViewportIntersection } from "../utils/ViewportIntersection.js";
+
+/**
+ * - `overlay`: a fixed canvas covering the window above the page, each viewer is scissored into its on-screen rect. No copies, but page content can't be drawn over viewers
+ * - `copy`: an offscreen canvas, each viewer is rendered then drawn into its own canvas with a 2D context. Viewers stack with the page as normal at the cost of one copy per viewer
+ */
+export type SharedCanvasMode = 'overlay' | 'copy';
+
+export type SharedCanvasOptions = {
+	/** @default 'overlay' */
+	mode?: SharedCanvasMode,
+	/** @default window.devicePixelRatio */
+	pixelRatio?: number,
+	/** `z-index` of the overlay canvas @default 1 */
+	zIndex?: number,
+	webglRendererParameters?: WebGLRendererParameters,
+};
+
+/**
+ * One WebGL context shared by many `PhysicallyBasedViewer`s, for pages with more viewers than the browser allows contexts (e.g. product cards)
+ *
+ * Each viewer keeps its own canvas for layout and input. The shared renderer runs the animation loop, tracks where each viewer's canvas is on screen and skips viewers that are fully outside the window.
+ * Viewers with `renderOnDemand` are only rendered when they need a frame or move, and the loop idles while none do. Call `invalidate()` after moving viewer canvases without scrolling or resizing the window.
+ * Resources (geometries, textures, render targets) live on the shared context, so they can be reused across viewers
+ *
+ * @example
+ * ```typescript
+ * const shared = new SharedCanvas({ mode: 'copy' });
+ * for (let card of document.querySelectorAll('canvas.product')) {
+ *   const viewer = shared.createViewer({ canvas: card as HTMLCanvasElement });
+ * }
+ * ```
+ */
+export class SharedCanvas {
+
+	readonly mode: SharedCanvasMode;
+	readonly canvas: HTMLCanvasElement;
+	readonly renderer: WebGLRenderer;
+
+	protected readonly entries = new Array<{
+		viewer: PhysicallyBasedViewer<any>,
+		context2d: CanvasRenderingContext2D | null,
+		outputViewport: Vector4,
+		/** Frame-relative rect last frame, to detect scrolling and layout changes */
+		layout: Vector4,
+		visible: boolean,
+		/** Needs rendering this frame */
+		dirty: boolean,
+		frameRequestedListener: { remove: () => void },
+	}>();
+
+	/** The loop has stopped requesting display frames until `invalidate()` */
+	protected loopIdle = false;
+	/** Every visible viewer must be redrawn next frame, e.g. a viewer was removed from the overlay */
+	protected redrawAll = true;
+
+	/** Viewer canvas rect relative to the frame it's rendered into, reused every frame */
+	protected readonly viewerRect = new DOMRect();
+
+	constructor(options: SharedCanvasOptions = {}) {
+		this.mode = options.mode ?? 'overlay';
+		const canvas = this.canvas = document.createElement('canvas');
+		if (this.mode === 'overlay') {
+			Object.assign(canvas.style, {
+				position: 'fixed',
+				left: '0',
+				top: '0',
+				width: '100%',
+				height: '100%',
+				pointerEvents: 'none',
+				zIndex: String(options.zIndex ?? 1),
+			});
+			document.body.appendChild(canvas);
+		}
+
+		this.renderer = new WebGLRenderer({
+			canvas,
+			alpha: true,
+			antialias: true,
+			powerPreference: 'high-performance',
+			...options.webglRendererParameters,
+		});
+		this.renderer.setPixelRatio(options.pixelRatio ?? window.devicePixelRatio);
+		this.renderer.setAnimationLoop(this.onAnimationLoop);
+
+		// viewers may have moved on screen
+		window.addEventListener('scroll', this.invalidate, { passive: true, capture: true });
+		window.addEventListener('resize', this.invalidate);
+
+		// viewers restore their own resources from the same events
+		canvas.addEventListener('webglcontextlost', this.onContextLost);
+		canvas.addEventListener('webglcontextrestored', this.onContextRestored);
+	}
+
+	protected onContextLost = (event: Event) => {
+		// allows the context to be restored
+		event.preventDefault();
+		this.renderer.setAnimationLoop(null);
+		this.loopIdle = false;
+	}
+
+	protected onContextRestored = () => {
+		this.redrawAll = true;
+		this.renderer.setAnimationLoop(this.onAnimationLoop);
+	}
+
+	protected onAnimationLoop = () => {
+		this.render();
+		// rendering may have requested more frames (accumulation, TAA)
+		if (!this.entries.some(e => e.visible && e.viewer.needsFrame && !e.viewer.isRenderingSuspended)) {
+			this.renderer.setAnimationLoop(null);
+			this.loopIdle = true;
+		}
+	}
+
+	/**
+	 * Wake the loop if it's idle so viewer positions are checked next frame. Viewers call this through their `frameRequested` event
+	 */
+	invalidate = () => {
+		if (this.loopIdle) {
+			this.loopIdle = false;
+			this.renderer.setAnimationLoop(this.onAnimationLoop);
+		}
+	}
+
+	/**
+	 * Construct a viewer that renders through the shared renderer, it's removed when disposed
+	 */
+	createViewer<Controls extends { enabled?: boolean, update?: (dt_s: number) => void } = OrbitControls>(
+		options: Omit<PhysicallyBasedViewerOptions<Controls>, 'renderer' | 'webglRendererParameters'>
+	): PhysicallyBasedViewer<Controls> {
+		const viewer = new PhysicallyBasedViewer<Controls>({ ...options, renderer: this.renderer });
+		this.add(viewer);
+		viewer.events.dispose.once(() => this.remove(viewer));
+		return viewer;
+	}
+
+	/**
+	 * Register a viewer constructed with `renderer: sharedCanvas.renderer`
+	 */
+	add(viewer: PhysicallyBasedViewer<any>) {
+		if (viewer.renderer !== this.renderer) {
+			throw new Error(`SharedCanvas: viewer "${viewer.name}" was not constructed with the shared renderer`);
+		}
+		if (this.entries.some(e => e.viewer === viewer)) return;
+
+		let context2d: CanvasRenderingContext2D | null = null;
+		if (this.mode === 'copy') {
+			context2d = viewer.canvas.getContext('2d');
+			if (context2d == null) {
+				throw new Error(`SharedCanvas: can't get a 2D context for viewer "${viewer.name}", its canvas may already have a WebGL context`);
+			}
+		}
+
+		const outputViewport = new Vector4();
+		viewer.outputViewport = outputViewport;
+		this.entries.push({
+			viewer,
+			context2d,
+			outputViewport,
+			layout: new Vector4(),
+			visible: false,
+			dirty: false,
+			frameRequestedListener: viewer.events.frameRequested.addListener(this.invalidate),
+		});
+		this.invalidate();
+	}
+
+	remove(viewer: PhysicallyBasedViewer<any>) {
+		const index = this.entries.findIndex(e => e.viewer === viewer);
+		if (index === -1) return;
+		const [entry] = this.entries.splice(index, 1);
+		entry.frameRequestedListener.remove();
+		viewer.outputViewport = null;
+		// clear what it left on the overlay
+		this.redrawAll = true;
+		this.invalidate();
+	}
+
+	/**
+	 * Viewers on screen last frame, the rest were skipped
+	 */
+	getVisibleViewers() {
+		return this.entries.filter(e => e.visible).map(e => e.viewer);
+	}
+
+	/**
+	 * Called by the renderer's animation loop, renders viewers that need a frame or have moved
+	 */
+	render() {
+		const { renderer, canvas, viewerRect } = this;
+
+		// overlay viewers are placed relative to the shared canvas, copy mode only needs what's in the window
+		let frameLeft = 0;
+		let frameTop = 0;
+		let frameWidth = window.innerWidth;
+		let frameHeight = window.innerHeight;
+		if (this.mode === 'overlay') {
+			const canvasRect = canvas.getBoundingClientRect();
+			frameLeft = canvasRect.left;
+			frameTop = canvasRect.top;
+			frameWidth = canvas.clientWidth;
+			frameHeight = canvas.clientHeight;
+		}
+
+		let layoutChanged = false;
+		let anyDirty = false;
+		for (let entry of this.entries) {
+			const rect = entry.viewer.canvas.getBoundingClientRect();
+			viewerRect.x = rect.left - frameLeft;
+			viewerRect.y = rect.top - frameTop;
+			viewerRect.width = rect.width;
+			viewerRect.height = rect.height;
+			const wasVisible = entry.visible;
+			// NaN for zero-size canvases
+			entry.visible = getViewportIntersection(viewerRect, frameWidth, frameHeight).visibleFraction > 0;
+			_layout.set(viewerRect.left, frameHeight - viewerRect.bottom, viewerRect.width, viewerRect.height);
+			// copy mode draws into the viewer's own canvas so only its size matters
+			const moved = entry.visible !== wasVisible || (entry.visible && (
+				this.mode === 'overlay' ? !entry.layout.equals(_layout) : (entry.layout.z !== _layout.z || entry.layout.w !== _layout.w)
+			));
+			entry.layout.copy(_layout);
+			// suspended viewers are being rendered by someone else (e.g. FrameCapture)
+			const suspended = entry.viewer.isRenderingSuspended;
+			entry.dirty = entry.visible && !suspended && (moved || entry.viewer.needsFrame);
+			layoutChanged ||= moved;
+			anyDirty ||= entry.dirty;
+			if (entry.visible) {
+				entry.outputViewport.copy(_layout);
+			}
+		}
+
+		if (this.mode === 'overlay') {
+			const resized = this.setCanvasSize(frameWidth, frameHeight);
+			// the drawing buffer isn't preserved, so drawing anything means redrawing every visible viewer
+			if (!anyDirty && !layoutChanged && !resized && !this.redrawAll) return;
+			this.redrawAll = false;
+
+			// viewers only clear their own rect, clear what's left behind by scrolling
+			renderer.setRenderTarget(null);
+			renderer.setScissorTest(false);
+			renderer.setClearColor(0x000000, 0);
+			renderer.clear();
+
+			for (let entry of this.entries) {
+				if (entry.visible && !entry.viewer.isRenderingSuspended) {
+					entry.viewer.consumeFrameRequest();
+					entry.viewer.animationFrame();
+				}
+			}
+		} else {
+			// grow to fit the largest visible viewer, each is rendered at the bottom-left and copied out
+			const size = renderer.getSize(_size);
+			let width = size.x;
+			let height = size.y;
+			for (let entry of this.entries) {
+				if (!entry.visible) continue;
+				width = Math.max(width, Math.ceil(entry.outputViewport.z));
+				height = Math.max(height, Math.ceil(entry.outputViewport.w));
+			}
+			this.setCanvasSize(width, height);
+
+			const dpr = renderer.getPixelRatio();
+			// each viewer's canvas keeps its last frame, only redraw what changed
+			for (let entry of this.entries) {
+				if (!entry.dirty) continue;
+				const { viewer, context2d, outputViewport } = entry;
+				outputViewport.x = 0;
+				outputViewport.y = 0;
+				viewer.consumeFrameRequest();
+				viewer.animationFrame();
+
+				const target = viewer.canvas;
+				const sourceWidth = Math.round(outputViewport.z * dpr);
+				const sourceHeight = Math.round(outputViewport.w * dpr);
+				context2d!.clearRect(0, 0, target.width, target.height);
+				// drawImage reads the WebGL drawing buffer before it's presented, so preserveDrawingBuffer isn't needed
+				context2d!.drawImage(canvas, 0, canvas.height - sourceHeight, sourceWidth, sourceHeight, 0, 0, target.width, target.height);
+			}
+		}
+	}
+
+	/**
+	 * Returns true if the canvas was resized
+	 */
+	protected setCanvasSize(width: number, height: number) {
+		const size = this.renderer.getSize(_size);
+		if (size.x !== width || size.y !== height) {
+			this.renderer.setSize(width, height, false);
+			return true;
+		}
+		return false;
+	}
+
+	/**
+	 * Stops rendering and releases the shared context, dispose viewers first
+	 */
+	dispose() {
+		this.renderer.setAnimationLoop(null);
+		this.loopIdle = false;
+		window.removeEventListener('scroll', this.invalidate, { capture: true });
+		window.removeEventListener('resize', this.invalidate);
+		this.canvas.removeEventListener('webglcontextlost', this.onContextLost);
+		this.canvas.removeEventListener('webglcontextrestored', this.onContextRestored);
+		for (let entry of this.entries) {
+			entry.frameRequestedListener.remove();
+			entry.viewer.outputViewport = null;
+		}
+		this.entries.length = 0;
+		this.renderer.dispose();
+		this.canvas.remove();
+	}
+
+}
+
+const _size = new Vector2();
+const _layout = new Vector4();
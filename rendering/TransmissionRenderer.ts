@@ -0,0 +1,116 @@
+import { Camera, HalfFloatType, Layers, LinearFilter, LinearMipmapLinearFilter, Object3D, Scene, Texture, WebGLRenderer, WebGLRenderTarget } from "three";
+import { generateBlurredMipmaps } from "./BlurredMipmapChain.js";
+import { Layer } from "./Layer.js";
+import { Rendering } from "./Rendering.js";
+import RenderTargetStore from "./RenderTargetStore.js";
+
+/**
+ * Renders the scene without transmissive objects into a mip-blurred background for `CustomPhysicalMaterial.transmissionBackground`
+ *
+ * Objects with `Layer.Transmissive` enabled are hidden while the background is rendered
+ *
+ * @example
+ * ```typescript
+ * const transmission = new TransmissionRenderer();
+ * glass.layers.enable(Layer.Transmissive);
+ * glass.material.transmission = 1;
+ * glass.material.transmissionBackground = transmission;
+ * // each frame, before rendering the scene
+ * transmission.render(renderer, { scene, camera, width, height, restoreGlobalState: true });
+ * ```
+ */
+export class TransmissionRenderer {
+
+	readonly renderTargetStore: RenderTargetStore;
+
+	/** Objects with this layer enabled are excluded from the background */
+	transmissiveLayer: Layer = Layer.Transmissive;
+	/** Background resolution relative to `width` and `height` passed to `render()` */
+	resolutionScale = 0.5;
+	/** Blur radius of each mip in fractions of image height, see `generateBlurredMipmaps()` */
+	blurKernel_heightFraction = 1 / 32;
+
+	protected target: WebGLRenderTarget | null = null;
+
+	constructor(renderTargetStore: RenderTargetStore = new RenderTargetStore()) {
+		this.renderTargetStore = renderTargetStore;
+	}
+
+	/**
+	 * Background from the last `render()`, mipmap levels are progressively blurred
+	 */
+	get texture(): Texture | null {
+		return this.target?.texture ?? null;
+	}
+
+	render(renderer: WebGLRenderer, options: {
+		scene: Scene,
+		camera: Camera,
+		/** Output size in pixels */
+		width: number,
+		height: number,
+		layers?: Layers,
+		clearColor?: Rendering.RenderPassOptions['clearColor'],
+		restoreGlobalState: boolean,
+		/** Give each view rendered in a frame (e.g. viewports of different sizes) its own name so they don't share and reallocate one target */
+		view?: string,
+	}) {
+		const target = this.renderTargetStore.getRenderTarget(
+			options.view != null ? `transmission.background.${options.view}` : 'transmission.background',
+			Math.max(1, Math.floor(options.width * this.resolutionScale)),
+			Math.max(1, Math.floor(options.height * this.resolutionScale)),
+			{
+				type: HalfFloatType,
+				magFilter: LinearFilter,
+				minFilter: LinearMipmapLinearFilter,
+				allocateMipmaps: true,
+				depthBuffer: true,
+			}
+		)!;
+
+		// hide transmissive objects
+		const hidden = new Array<Object3D>();
+		options.scene.traverse((object) => {
+			if (object.visible && object.layers.isEnabled(this.transmissiveLayer)) {
+				object.visible = false;
+				hidden.push(object);
+			}
+		});
+
+		const stateDepth = options.restoreGlobalState ? Rendering.pushState(renderer) : -1;
+
+		try {
+			// linear HDR, matches three.js' transmission pass
+			Rendering.renderPass(renderer, {
+				scene: options.scene,
+				camera: options.camera,
+				target,
+				layers: options.layers,
+				clearColor: options.clearColor ?? { rgb: 0x000000, alpha: 0 },
+				clearDepth: true,
+				restoreGlobalState: false,
+			});
+
+			generateBlurredMipmaps(renderer, {
+				target,
+				blurKernel_heightFraction: this.blurKernel_heightFraction,
+				restoreGlobalState: false,
+			});
+		} finally {
+			for (let object of hidden) {
+				object.visible = true;
+			}
+			if (options.restoreGlobalState) {
+				Rendering.popState(renderer, stateDepth);
+			}
+		}
+
+		this.target = target;
+	}
+
+	dispose() {
+		this.renderTargetStore.clearAndDisposeAll();
+		this.target = null;
+	}
+
+}
@@ -0,0 +1,365 @@
+import { AddEquation, Camera, CustomBlending, DepthTexture, HalfFloatType, Layers, LinearFilter, Material, Mesh, MeshBasicMaterial, NearestFilter, Object3D, OneFactor, OneMinusSrcColorFactor, Scene, WebGLRenderer, WebGLRenderTarget, ZeroFactor } from "three";
+import { Layer } from "./Layer.js";
+import { Rendering } from "./Rendering.js";
+import RenderTargetStore from "./RenderTargetStore.js";
+
+/**
+ * GLSL float expression for the weight of a transparent fragment
+ *
+ * Available variables: `alpha`, `viewDepth` (distance along the view axis) and `fragDepth` (`gl_FragCoord.z`)
+ */
+export type OITWeightFunction = string;
+
+enum OITPass {
+	Accumulation = 0,
+	Revealage = 1,
+}
+
+/**
+ * Weighted blended order-independent transparency (McGuire & Bavoil 2013) for objects on `Layer.Blended`
+ *
+ * Blended objects are hidden from the opaque pass, then rendered with their own materials into an accumulation and a revealage target that share the opaque depth. A `Rendering.shaderPass` resolves them over the opaque result
+ *
+ * Use as `viewer.customRender = oit`, or pass to `PostProcessingStack` with the `oit` option
+ */
+export class WeightedBlendedOIT {
+
+	static readonly weightFunctions = {
+		/** Equation 10 from the paper, suited to scenes a few hundred units deep */
+		depth: /*glsl*/`alpha * clamp(0.03 / (1e-5 + pow(viewDepth / 200.0, 4.0)), 1e-2, 3e3)`,
+		/** Favours closer fragments more strongly, suited to small scenes */
+		nearDepth: /*glsl*/`alpha * clamp(10.0 / (1e-5 + pow(viewDepth / 5.0, 2.0) + pow(viewDepth / 200.0, 6.0)), 1e-2, 3e3)`,
+		/** Ignores depth, equivalent to averaging overlapping fragments by alpha */
+		alpha: /*glsl*/`alpha`,
+	} satisfies Record<string, OITWeightFunction>;
+
+	readonly renderTargetStore: RenderTargetStore;
+
+	blendedLayer: Layer = Layer.Blended;
+	defaultWeightFunction: OITWeightFunction = WeightedBlendedOIT.weightFunctions.depth;
+
+	protected weightFunctions = new WeakMap<Object3D, OITWeightFunction>();
+	/** Source material → `${pass}|${weightFunction}` → patched copy */
+	protected materials = new WeakMap<Material, Map<string, Material>>();
+	protected allMaterials = new Set<Material>();
+	/** Patched copy → source version it was last synced with */
+	protected sourceVersions = new WeakMap<Material, number>();
+	protected hiddenMaterial = new MeshBasicMaterial({ visible: false });
+	protected depthTexture = new DepthTexture(1, 1);
+
+	constructor(renderTargetStore: RenderTargetStore = new RenderTargetStore()) {
+		this.renderTargetStore = renderTargetStore;
+	}
+
+	/**
+	 * Override the weight function for one object, pass `null` to use `defaultWeightFunction`
+	 */
+	setWeightFunction(object: Object3D, weightFunction: OITWeightFunction | null) {
+		if (weightFunction == null) {
+			this.weightFunctions.delete(object);
+		} else {
+			this.weightFunctions.set(object, weightFunction);
+		}
+	}
+
+	/**
+	 * Render opaque objects and composite blended objects over them. Has the same signature as `PhysicallyBasedViewer.customRender`
+	 */
+	render = (renderer: WebGLRenderer, renderPassOptions: Rendering.RenderPassOptions) => {
+		const { target, viewport } = renderPassOptions;
+
+		let width: number;
+		let height: number;
+		if (viewport != null) {
+			const dpr = renderer.getPixelRatio();
+			width = Math.floor(viewport.z * dpr);
+			height = Math.floor(viewport.w * dpr);
+		} else if (target != null) {
+			width = target.width;
+			height = target.height;
+		} else {
+			const gl = renderer.getContext();
+			width = gl.drawingBufferWidth;
+			height = gl.drawingBufferHeight;
+		}
+
+		const stateDepth = renderPassOptions.restoreGlobalState ? Rendering.pushState(renderer) : -1;
+
+		try {
+			const opaqueTarget = this.renderTargetStore.getRenderTarget('oit.opaque', width, height, {
+				type: HalfFloatType,
+				magFilter: LinearFilter,
+				depthBuffer: true,
+				depthTexture: this.depthTexture,
+			})!;
+
+			this.renderOpaque(renderer, {
+				...renderPassOptions,
+				target: opaqueTarget,
+				viewport: undefined,
+				scissor: undefined,
+				toneMapping: undefined,
+				toneMappingExposure: undefined,
+				restoreGlobalState: false,
+			});
+
+			const resolvedTarget = this.renderTargetStore.getRenderTarget('oit.resolved', width, height, {
+				type: HalfFloatType,
+				magFilter: LinearFilter,
+			})!;
+
+			this.composite(renderer, {
+				scene: renderPassOptions.scene,
+				camera: renderPassOptions.camera,
+				layers: renderPassOptions.layers,
+				opaque: opaqueTarget,
+				target: resolvedTarget,
+				restoreGlobalState: false,
+			});
+
+			Rendering.blit(renderer, {
+				source: resolvedTarget.texture,
+				target,
+				viewport,
+				applyOutputColorSpace: true,
+				toneMapping: renderPassOptions.toneMapping,
+				toneMappingExposure: renderPassOptions.toneMappingExposure,
+				restoreGlobalState: false,
+			});
+		} finally {
+			if (renderPassOptions.restoreGlobalState) {
+				Rendering.popState(renderer, stateDepth);
+			}
+		}
+	}
+
+	/**
+	 * `Rendering.renderPass()` with blended objects hidden
+	 */
+	renderOpaque(renderer: WebGLRenderer, options: Rendering.RenderPassOptions) {
+		const hidden = new Array<Object3D>();
+		options.scene.traverse((object) => {
+			if (object.visible && object.layers.isEnabled(this.blendedLayer)) {
+				object.visible = false;
+				hidden.push(object);
+			}
+		});
+		try {
+			Rendering.renderPass(renderer, options);
+		} finally {
+			for (let object of hidden) {
+				object.visible = true;
+			}
+		}
+	}
+
+	/**
+	 * Render blended objects and resolve them over `opaque` into `target`
+	 *
+	 * `opaque` must have a `depthTexture`, blended fragments are depth tested against it
+	 */
+	composite(renderer: WebGLRenderer, options: {
+		scene: Mesh | Scene,
+		camera: Camera,
+		layers?: Layers,
+		opaque: WebGLRenderTarget,
+		target: WebGLRenderTarget | null,
+		restoreGlobalState: boolean,
+	}) {
+		const { opaque } = options;
+		const depthTexture = opaque.depthTexture;
+		if (depthTexture == null) {
+			throw new Error(`WeightedBlendedOIT: opaque target must have a depthTexture`);
+		}
+
+		const stateDepth = options.restoreGlobalState ? Rendering.pushState(renderer) : -1;
+
+		try {
+			const accumulationTarget = this.renderTargetStore.getRenderTarget('oit.accumulation', opaque.width, opaque.height, {
+				type: HalfFloatType,
+				magFilter: NearestFilter,
+				minFilter: NearestFilter,
+				depthBuffer: true,
+				depthTexture,
+			})!;
+			const revealageTarget = this.renderTargetStore.getRenderTarget('oit.revealage', opaque.width, opaque.height, {
+				type: HalfFloatType,
+				magFilter: NearestFilter,
+				minFilter: NearestFilter,
+				depthBuffer: true,
+				depthTexture,
+			})!;
+
+			const { scene } = options;
+
+			Rendering.renderPass(renderer, {
+				scene,
+				camera: options.camera,
+				layers: options.layers,
+				target: accumulationTarget,
+				clearColor: { rgb: 0x000000, alpha: 0 },
+				clearDepth: false,
+				overrideMaterial: (object) => this.getMaterial(object, OITPass.Accumulation),
+				restoreGlobalState: false,
+			});
+
+			Rendering.renderPass(renderer, {
+				scene,
+				camera: options.camera,
+				layers: options.layers,
+				target: revealageTarget,
+				clearColor: { rgb: 0xffffff, alpha: 1 },
+				clearDepth: false,
+				overrideMaterial: (object) => this.getMaterial(object, OITPass.Revealage),
+				restoreGlobalState: false,
+			});
+
+			Rendering.shaderPass(renderer, {
+				target: options.target,
+				fragmentShader: /*glsl*/`
+					void main() {
+						vec4 opaque = texture2D(opaqueTexture, vUv);
+						vec4 accumulation = texture2D(accumulationTexture, vUv);
+						float revealage = texture2D(revealageTexture, vUv).r;
+
+						vec3 average = accumulation.rgb / clamp(accumulation.a, 1e-4, 5e4);
+						gl_FragColor = vec4(mix(average, opaque.rgb, revealage), opaque.a + (1.0 - revealage) * (1.0 - opaque.a));
+					}
+				`,
+				uniforms: {
+					opaqueTexture: opaque.texture,
+					accumulationTexture: accumulationTarget.texture,
+					revealageTexture: revealageTarget.texture,
+				},
+				clearColor: false,
+				clearDepth: false,
+				restoreGlobalState: false,
+			});
+		} finally {
+			if (options.restoreGlobalState) {
+				Rendering.popState(renderer, stateDepth);
+			}
+		}
+	}
+
+	protected getMaterial(object: Object3D & { material: Material | Material[] }, pass: OITPass): Material | Material[] {
+		if (!object.layers.isEnabled(this.blendedLayer)) {
+			return this.hiddenMaterial;
+		}
+		const weightFunction = this.weightFunctions.get(object) ?? this.defaultWeightFunction;
+		if (Array.isArray(object.material)) {
+			return object.material.map(m => this.getPatchedMaterial(m, pass, weightFunction));
+		} else {
+			return this.getPatchedMaterial(object.material, pass, weightFunction);
+		}
+	}
+
+	protected getPatchedMaterial(source: Material, pass: OITPass, weightFunction: OITWeightFunction) {
+		let variants = this.materials.get(source);
+		if (variants == null) {
+			variants = new Map();
+			this.materials.set(source, variants);
+		}
+		const key = `${pass}|${weightFunction}`;
+		let material = variants.get(key);
+		if (material == null) {
+			material = source.clone();
+			material.onBeforeCompile = (shader, renderer) => {
+				source.onBeforeCompile(shader, renderer);
+				shader.fragmentShader = injectOIT(shader.fragmentShader, pass, weightFunction);
+			}
+			material.customProgramCacheKey = () => `${source.customProgramCacheKey()}|oit:${key}`;
+			variants.set(key, material);
+			this.allMaterials.add(material);
+		}
+
+		// follow changes to the source material
+		for (let k in source) {
+			if (Object.prototype.hasOwnProperty.call(source, k) && !unsyncedMaterialKeys.has(k)) {
+				(material as any)[k] = (source as any)[k];
+			}
+		}
+		if (this.sourceVersions.get(material) !== source.version) {
+			this.sourceVersions.set(material, source.version);
+			material.needsUpdate = true;
+		}
+
+		material.transparent = true;
+		material.premultipliedAlpha = false;
+		material.depthWrite = false;
+		material.depthTest = true;
+		material.blending = CustomBlending;
+		material.blendEquation = AddEquation;
+		material.blendEquationAlpha = AddEquation;
+		if (pass === OITPass.Accumulation) {
+			material.blendSrc = OneFactor;
+			material.blendDst = OneFactor;
+			material.blendSrcAlpha = OneFactor;
+			material.blendDstAlpha = OneFactor;
+		} else {
+			material.blendSrc = ZeroFactor;
+			material.blendDst = OneMinusSrcColorFactor;
+			material.blendSrcAlpha = ZeroFactor;
+			material.blendDstAlpha = OneMinusSrcColorFactor;
+		}
+
+		return material;
+	}
+
+	dispose() {
+		for (let material of this.allMaterials) {
+			material.dispose();
+		}
+		this.allMaterials.clear();
+		this.materials = new WeakMap();
+		this.hiddenMaterial.dispose();
+		this.depthTexture.dispose();
+		this.renderTargetStore.clearAndDisposeAll();
+	}
+
+}
+
+/**
+ * Properties that identify the copy or that OIT controls
+ */
+const unsyncedMaterialKeys = new Set([
+	'id',
+	'uuid',
+	'version',
+	'_listeners',
+	'onBeforeCompile',
+	'customProgramCacheKey',
+	'transparent',
+	'premultipliedAlpha',
+	'depthWrite',
+	'depthTest',
+	'blending',
+	'blendSrc',
+	'blendDst',
+	'blendEquation',
+	'blendSrcAlpha',
+	'blendDstAlpha',
+	'blendEquationAlpha',
+]);
+
+/**
+ * Replace the final fragment color with the OIT output for `pass`
+ */
+function injectOIT(fragmentShader: string, pass: OITPass, weightFunction: OITWeightFunction) {
+	const end = fragmentShader.lastIndexOf('}');
+	const glsl = /*glsl*/`
+		// weighted blended OIT
+		{
+			float alpha = clamp(gl_FragColor.a, 0.0, 1.0);
+			float viewDepth = 1.0 / gl_FragCoord.w;
+			float fragDepth = gl_FragCoord.z;
+			#if ${pass} == ${OITPass.Accumulation}
+			float weight = ${weightFunction};
+			gl_FragColor = vec4(gl_FragColor.rgb * alpha, alpha) * weight;
+			#else
+			gl_FragColor = vec4(alpha);
+			#endif
+		}
+	`;
+	return fragmentShader.slice(0, end) + glsl + fragmentShader.slice(end);
+}
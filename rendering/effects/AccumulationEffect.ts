@@ -0,0 +1,279 @@
+import { FloatType, Light, LinearFilter, Material, Matrix4, Mesh, Object3D, Scene, Texture, Uniform, Vector3, WebGLRenderTarget } from "three";
+import { GUI } from "../../lib/lilgui.module.js";
+import { ShaderMaterial } from "../../materials/ShaderMaterial.js";
+import { DualRenderTarget } from "../DualRenderTarget.js";
+import { Rendering } from "../Rendering.js";
+import { effectVertexShader, PostProcessingContext, PostProcessingEffect } from "./PostProcessingEffect.js";
+import { halton } from "./TAAEffect.js";
+
+/**
+ * Progressively accumulates sub-pixel jittered frames into a float target while the camera and scene are unchanged, up to `maxSamples`
+ *
+ * Any change to the camera, object transforms, visibility, materials, geometry or output size restarts accumulation. Changes the scene signature can't see (uniforms, textures) should call `invalidate()`
+ *
+ * Shadow casting lights are jittered by `lightJitter` for soft shadows. Effects can read `sampleIndex` to vary their own noise per sample
+ *
+ * Should be the first effect and not combined with `TAAEffect`
+ */
+export class AccumulationEffect implements PostProcessingEffect {
+
+	readonly name = 'Accumulation';
+	enabled = true;
+
+	maxSamples: number;
+	/** Jitter amplitude in pixels */
+	jitterScale = 1;
+	/** Jitter radius of shadow casting lights in world units, 0 disables */
+	lightJitter = 0;
+
+	protected _sampleCount = 0;
+	protected invalidated = true;
+	protected accumulation: DualRenderTarget | null = null;
+
+	protected signature = new Array<number>();
+	protected signatureLength = 0;
+	protected signatureChanged = false;
+
+	protected savedProjection = new Matrix4();
+	protected savedProjectionInverse = new Matrix4();
+	protected jittered = false;
+	protected jitteredLights = new Array<{ light: Light, position: Vector3 }>();
+
+	readonly material = new ShaderMaterial<{
+		source: Uniform<Texture | null>,
+		accumulation: Uniform<Texture | null>,
+		/** Weight of the new sample, `1 / (sampleCount + 1)` */
+		weight: Uniform<number>,
+	}>({
+		uniforms: {
+			source: new Uniform(null),
+			accumulation: new Uniform(null),
+			weight: new Uniform(1),
+		},
+		vertexShader: effectVertexShader,
+		fragmentShader: /*glsl*/`
+			uniform sampler2D source;
+			uniform sampler2D accumulation;
+			uniform float weight;
+			varying vec2 vUv;
+
+			void main() {
+				gl_FragColor = mix(texture2D(accumulation, vUv), texture2D(source, vUv), weight);
+			}
+		`,
+		depthTest: false,
+		depthWrite: false,
+	});
+
+	constructor(maxSamples = 64) {
+		this.maxSamples = maxSamples;
+	}
+
+	/** Number of samples accumulated so far */
+	get sampleCount() {
+		return this._sampleCount;
+	}
+
+	/** Index of the sample being rendered this frame, 0 is unjittered */
+	get sampleIndex() {
+		return this._sampleCount;
+	}
+
+	get converged() {
+		return this._sampleCount >= this.maxSamples;
+	}
+
+	get needsFrame() {
+		return !this.converged;
+	}
+
+	/**
+	 * Restart accumulation on the next frame
+	 */
+	invalidate() {
+		this.invalidated = true;
+	}
+
+	restoreContext() {
+		this.accumulation?.reallocate();
+		this.invalidate();
+	}
+
+	beforeSceneRender(context: PostProcessingContext) {
+		const { camera, scene } = context;
+
+		if (this.updateSignature(context) || this.invalidated) {
+			this._sampleCount = 0;
+			this.invalidated = false;
+		}
+
+		// first sample is unjittered so frames while moving are stable
+		if (this.converged || this._sampleCount === 0) {
+			return;
+		}
+
+		const i = this._sampleCount;
+		this.savedProjection.copy(camera.projectionMatrix);
+		this.savedProjectionInverse.copy(camera.projectionMatrixInverse);
+		_matrix.makeTranslation(
+			(halton(i, 2) - 0.5) * this.jitterScale * 2 / context.width,
+			(halton(i, 3) - 0.5) * this.jitterScale * 2 / context.height,
+			0,
+		);
+		camera.projectionMatrix.premultiply(_matrix);
+		camera.projectionMatrixInverse.copy(camera.projectionMatrix).invert();
+		this.jittered = true;
+
+		if (this.lightJitter > 0) {
+			scene.traverseVisible((object) => {
+				const light = object as Light;
+				if (light.isLight && light.castShadow) {
+					this.jitteredLights.push({ light, position: light.position.clone() });
+					// uniform point in a sphere from the halton sequence
+					const u = halton(i, 5) * 2 - 1;
+					const phi = halton(i, 7) * Math.PI * 2;
+					const r = Math.cbrt(halton(i, 11)) * this.lightJitter;
+					const s = Math.sqrt(1 - u * u);
+					light.position.x += r * s * Math.cos(phi);
+					light.position.y += r * s * Math.sin(phi);
+					light.position.z += r * u;
+					light.updateMatrixWorld();
+				}
+			});
+		}
+	}
+
+	afterSceneRender(context: PostProcessingContext) {
+		if (this.jittered) {
+			context.camera.projectionMatrix.copy(this.savedProjection);
+			context.camera.projectionMatrixInverse.copy(this.savedProjectionInverse);
+			this.jittered = false;
+		}
+		for (let { light, position } of this.jitteredLights) {
+			light.position.copy(position);
+			light.updateMatrixWorld();
+		}
+		this.jitteredLights.length = 0;
+	}
+
+	render(context: PostProcessingContext, source: Texture, target: WebGLRenderTarget | null) {
+		const { renderer, width, height } = context;
+
+		if (this.accumulation == null) {
+			this.accumulation = new DualRenderTarget(renderer, width, height, {
+				type: FloatType,
+				magFilter: LinearFilter,
+				minFilter: LinearFilter,
+				depthBuffer: false,
+			});
+		} else if (this.accumulation.width !== width || this.accumulation.height !== height) {
+			this.accumulation.resize(width, height);
+			this._sampleCount = 0;
+		}
+
+		if (!this.converged) {
+			const uniforms = this.material.uniforms;
+			uniforms.source.value = source;
+			uniforms.accumulation.value = this.accumulation.getTexture();
+			uniforms.weight.value = 1 / (this._sampleCount + 1);
+
+			Rendering.shaderMaterialPass(renderer, {
+				shader: this.material,
+				target: this.accumulation.getWriteRenderTarget(),
+				clearColor: false,
+				clearDepth: false,
+				restoreGlobalState: false,
+			});
+			this.accumulation.swap();
+			this._sampleCount++;
+		}
+
+		Rendering.blit(renderer, {
+			source: this.accumulation.getTexture(),
+			target,
+			viewport: target === context.outputTarget ? context.outputViewport : undefined,
+			restoreGlobalState: false,
+		});
+	}
+
+	/**
+	 * Records camera, transforms, visibility, materials, geometry and output size, returns true if anything changed since last frame
+	 */
+	protected updateSignature(context: PostProcessingContext) {
+		const { camera, scene } = context;
+		this.signatureLength = 0;
+		this.signatureChanged = false;
+
+		// controls and animation update positions after the last render, matrices would lag a frame
+		scene.updateMatrixWorld();
+		if (camera.parent == null) {
+			camera.updateMatrixWorld();
+		}
+
+		this.pushSignature(context.width);
+		this.pushSignature(context.height);
+		this.pushMatrix(camera.matrixWorld);
+		this.pushMatrix(camera.projectionMatrix);
+
+		if ((scene as Scene).isScene) {
+			const environment = (scene as Scene).environment;
+			const background = (scene as Scene).background as { id?: number } | null;
+			this.pushSignature(environment?.id ?? -1);
+			this.pushSignature(background?.id ?? -1);
+		}
+
+		scene.traverseVisible((object: Object3D) => {
+			this.pushSignature(object.id);
+			this.pushMatrix(object.matrixWorld);
+			const mesh = object as Mesh;
+			if (mesh.geometry != null) {
+				this.pushSignature(mesh.geometry.id);
+			}
+			if (mesh.material != null) {
+				for (let material of Array.isArray(mesh.material) ? mesh.material : [mesh.material]) {
+					this.pushSignature((material as Material & { id: number }).id);
+					this.pushSignature(material.version);
+				}
+			}
+		});
+
+		if (this.signatureLength !== this.signature.length) {
+			this.signature.length = this.signatureLength;
+			this.signatureChanged = true;
+		}
+
+		return this.signatureChanged;
+	}
+
+	protected pushSignature(value: number) {
+		const i = this.signatureLength++;
+		if (this.signature[i] !== value) {
+			this.signature[i] = value;
+			this.signatureChanged = true;
+		}
+	}
+
+	protected pushMatrix(matrix: Matrix4) {
+		for (let e of matrix.elements) {
+			this.pushSignature(e);
+		}
+	}
+
+	addDevUI(folder: GUI) {
+		folder.add(this, 'maxSamples', 1, 1024, 1);
+		folder.add(this, 'jitterScale', 0, 2, 0.001);
+		folder.add(this, 'lightJitter', 0, 1, 0.001);
+		folder.add(this, 'invalidate');
+	}
+
+	dispose() {
+		this.material.dispose();
+		this.accumulation?.a.dispose();
+		this.accumulation?.b.dispose();
+		this.accumulation = null;
+		this.invalidated = true;
+	}
+
+}
+
+const _matrix = new Matrix4();
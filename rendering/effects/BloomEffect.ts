@@ -0,0 +1,66 @@
+import { LinearFilter, LinearMipmapLinearFilter, Texture, WebGLRenderTarget } from "three";
+import { GUI } from "../../lib/lilgui.module.js";
+import { BloomMipmapsMaterial } from "../../materials/BloomMipmapsMaterial.js";
+import { generateBlurredMipmaps } from "../BlurredMipmapChain.js";
+import { Rendering } from "../Rendering.js";
+import { effectPass, PostProcessingContext, PostProcessingEffect } from "./PostProcessingEffect.js";
+
+/**
+ * Adds a blurred mipmap chain of the source over itself
+ */
+export class BloomEffect implements PostProcessingEffect {
+
+	readonly name = 'Bloom';
+	enabled = true;
+
+	/** Blur radius of each mip in fractions of image height, see `generateBlurredMipmaps()` */
+	blurKernel_heightFraction = 1 / 16;
+
+	readonly material = new BloomMipmapsMaterial();
+
+	get strength() { return this.material.uniforms.bloomStrength.value; }
+	set strength(v: number) { this.material.uniforms.bloomStrength.value = v; }
+
+	get falloff() { return this.material.uniforms.bloomFalloff.value; }
+	set falloff(v: number) { this.material.uniforms.bloomFalloff.value = v; }
+
+	render(context: PostProcessingContext, source: Texture, target: WebGLRenderTarget | null) {
+		const { renderer } = context;
+
+		const mipmapTarget = context.renderTargetStore.getRenderTarget('bloom.mipmaps', context.width, context.height, {
+			type: source.type,
+			magFilter: LinearFilter,
+			minFilter: LinearMipmapLinearFilter,
+			allocateMipmaps: true,
+		})!;
+
+		Rendering.blit(renderer, {
+			source,
+			target: mipmapTarget,
+			restoreGlobalState: false,
+		});
+
+		generateBlurredMipmaps(renderer, {
+			target: mipmapTarget,
+			blurKernel_heightFraction: this.blurKernel_heightFraction,
+			restoreGlobalState: false,
+		});
+
+		this.material.uniforms.source.value = source;
+		this.material.uniforms.mipmapSource.value = mipmapTarget.texture;
+
+		effectPass(context, this.material, target);
+	}
+
+	addDevUI(folder: GUI) {
+		folder.add(this, 'strength', 0, 0.2, 0.0001);
+		folder.add(this, 'falloff', -2, 2, 0.001);
+		folder.add(this, 'blurKernel_heightFraction', 0, 0.25, 0.001);
+		folder.add(this.material.uniforms.minLod, 'value', 0, 8, 1, 'minLod');
+	}
+
+	dispose() {
+		this.material.dispose();
+	}
+
+}
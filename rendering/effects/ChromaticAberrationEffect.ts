@@ -0,0 +1,65 @@
+import { Texture, Uniform, Vector4, WebGLRenderTarget } from "three";
+import { GUI } from "../../lib/lilgui.module.js";
+import { ShaderMaterial } from "../../materials/ShaderMaterial.js";
+import { effectPass, effectVertexShader, PostProcessingContext, PostProcessingEffect } from "./PostProcessingEffect.js";
+
+/**
+ * Radial RGB split, increasing towards the edges of the image
+ */
+export class ChromaticAberrationEffect implements PostProcessingEffect {
+
+	readonly name = 'Chromatic Aberration';
+	enabled = true;
+
+	readonly material = new ShaderMaterial<{
+		source: Uniform<Texture | null>,
+		/** Offset of red and blue at the image corners, in fractions of image width */
+		strength: Uniform<number>,
+		screenUvTransform: Uniform<Vector4>,
+	}>({
+		uniforms: {
+			source: new Uniform(null),
+			strength: new Uniform(0.002),
+			screenUvTransform: new Uniform(new Vector4(1, 1, 0, 0)),
+		},
+		vertexShader: effectVertexShader,
+		fragmentShader: /*glsl*/`
+			uniform sampler2D source;
+			uniform float strength;
+			uniform vec4 screenUvTransform;
+			varying vec2 vUv;
+
+			void main() {
+				vec2 fromCenter = vUv * screenUvTransform.xy + screenUvTransform.zw - 0.5;
+				// offset is in full frame UV, convert to buffer UV
+				vec2 offset = fromCenter * dot(fromCenter, fromCenter) * 4.0 * strength / screenUvTransform.xy;
+
+				vec4 color = texture2D(source, vUv);
+				color.r = texture2D(source, vUv - offset).r;
+				color.b = texture2D(source, vUv + offset).b;
+
+				gl_FragColor = color;
+			}
+		`,
+		depthTest: false,
+		depthWrite: false,
+	});
+
+	get strength() { return this.material.uniforms.strength.value; }
+	set strength(v: number) { this.material.uniforms.strength.value = v; }
+
+	render(context: PostProcessingContext, source: Texture, target: WebGLRenderTarget | null) {
+		this.material.uniforms.source.value = source;
+		this.material.uniforms.screenUvTransform.value.copy(context.screenUvTransform);
+		effectPass(context, this.material, target);
+	}
+
+	addDevUI(folder: GUI) {
+		folder.add(this, 'strength', 0, 0.05, 0.0001);
+	}
+
+	dispose() {
+		this.material.dispose();
+	}
+
+}
@@ -0,0 +1,338 @@
+import { Camera, HalfFloatType, LinearFilter, LinearMipmapLinearFilter, Matrix4, PerspectiveCamera, Texture, Uniform, Vector3, WebGLRenderTarget } from "three";
+import { GUI } from "../../lib/lilgui.module.js";
+import { ShaderMaterial } from "../../materials/ShaderMaterial.js";
+import { ThreeInteraction } from "../../interaction/ThreeInteraction.js";
+import { generateBlurredMipmaps } from "../BlurredMipmapChain.js";
+import { gaussianBlur } from "../GaussianBlur.js";
+import { Rendering } from "../Rendering.js";
+import { effectPass, effectVertexShader, PostProcessingContext, PostProcessingEffect } from "./PostProcessingEffect.js";
+
+/**
+ * Thin-lens depth of field
+ *
+ * Circle of confusion is computed per pixel from depth, `fStop` and the camera's focal length (`PerspectiveCamera.getFocalLength()`, which depends on `filmGauge`).
+ * Focus follows `camera.focus` (see `OrthoPerspectiveCamera.focus`) unless `focusDistance` is set
+ *
+ * The far field is gathered from a blurred mip chain that excludes pixels in front of the focus plane so foreground objects don't bleed into the background.
+ * The near field uses a dilated circle of confusion so out-of-focus foreground edges spread over the background
+ *
+ * @example
+ * ```typescript
+ * const dof = stack.addEffect(new DepthOfFieldEffect(), 0);
+ * dof.bindAutofocus(viewer.threeInteraction);
+ * ```
+ */
+export class DepthOfFieldEffect implements PostProcessingEffect {
+
+	readonly name = 'Depth of Field';
+	enabled = true;
+
+	/** Aperture f-number, lower values give a shallower depth of field */
+	fStop = 2.8;
+	/** Millimeters per world unit, the default treats world units as meters */
+	worldUnitsToMm = 1000;
+	/** Focal length in mm for cameras that aren't `PerspectiveCamera` */
+	fallbackFocalLength = 50;
+	/** Film height in mm for cameras that aren't `PerspectiveCamera` */
+	fallbackFilmHeight = 24;
+	/** Distance to the focus plane in world units, `null` uses `camera.focus` */
+	focusDistance: number | null = null;
+	/** Rate at which autofocus approaches its target, per second */
+	autofocusSpeed = 8;
+	/** Blur radius of each mip in fractions of image height, see `generateBlurredMipmaps()` */
+	blurKernel_heightFraction = 1 / 64;
+
+	protected autofocusTarget: number | null = null;
+
+	readonly cocMaterial = new ShaderMaterial<{
+		depthTexture: Uniform<Texture | null>,
+		cameraProjectionMatrixInverse: Uniform<Matrix4>,
+		/** Signed circle of confusion diameter in pixels is `cocScale * (z - focus) / z` */
+		cocScale: Uniform<number>,
+		focus: Uniform<number>,
+		/** Maximum circle of confusion diameter in pixels */
+		maxCoc: Uniform<number>,
+	}>({
+		uniforms: {
+			depthTexture: new Uniform(null),
+			cameraProjectionMatrixInverse: new Uniform(new Matrix4()),
+			cocScale: new Uniform(0),
+			focus: new Uniform(10),
+			maxCoc: new Uniform(48),
+		},
+		vertexShader: effectVertexShader,
+		fragmentShader: /*glsl*/`
+			uniform sampler2D depthTexture;
+			uniform mat4 cameraProjectionMatrixInverse;
+			uniform float cocScale;
+			uniform float focus;
+			uniform float maxCoc;
+			varying vec2 vUv;
+
+			void main() {
+				float depth = texture2D(depthTexture, vUv).r;
+				vec4 view = cameraProjectionMatrixInverse * vec4(vec3(vUv, depth) * 2.0 - 1.0, 1.0);
+				float z = max(-view.z / view.w, 1e-4);
+				float coc = clamp(cocScale * (z - focus) / z, -maxCoc, maxCoc);
+				// r: far field, g: near field
+				gl_FragColor = vec4(max(coc, 0.0), max(-coc, 0.0), 0.0, 1.0);
+			}
+		`,
+		depthTest: false,
+		depthWrite: false,
+	});
+
+	/** Premultiplies the far field so the foreground is excluded from its mip chain */
+	readonly farFieldMaterial = new ShaderMaterial<{
+		source: Uniform<Texture | null>,
+		coc: Uniform<Texture | null>,
+	}>({
+		uniforms: {
+			source: new Uniform(null),
+			coc: new Uniform(null),
+		},
+		vertexShader: effectVertexShader,
+		fragmentShader: /*glsl*/`
+			uniform sampler2D source;
+			uniform sampler2D coc;
+			varying vec2 vUv;
+
+			void main() {
+				float far = texture2D(coc, vUv).g > 0.0 ? 0.0 : 1.0;
+				gl_FragColor = vec4(texture2D(source, vUv).rgb * far, far);
+			}
+		`,
+		depthTest: false,
+		depthWrite: false,
+	});
+
+	readonly compositeMaterial = new ShaderMaterial<{
+		source: Uniform<Texture | null>,
+		coc: Uniform<Texture | null>,
+		nearCocBlurred: Uniform<Texture | null>,
+		colorMipmaps: Uniform<Texture | null>,
+		farMipmaps: Uniform<Texture | null>,
+		maxLod: Uniform<number>,
+		/** Pixels of circle of confusion per mip level doubling */
+		lodBias: Uniform<number>,
+	}>({
+		uniforms: {
+			source: new Uniform(null),
+			coc: new Uniform(null),
+			nearCocBlurred: new Uniform(null),
+			colorMipmaps: new Uniform(null),
+			farMipmaps: new Uniform(null),
+			maxLod: new Uniform(0),
+			lodBias: new Uniform(0),
+		},
+		vertexShader: effectVertexShader,
+		fragmentShader: /*glsl*/`
+			uniform sampler2D source;
+			uniform sampler2D coc;
+			uniform sampler2D nearCocBlurred;
+			uniform sampler2D colorMipmaps;
+			uniform sampler2D farMipmaps;
+			uniform float maxLod;
+			uniform float lodBias;
+			varying vec2 vUv;
+
+			float cocLod(float cocPx) {
+				return clamp(log2(max(cocPx, 1.0)) + lodBias, 0.0, maxLod);
+			}
+
+			void main() {
+				vec4 color = texture2D(source, vUv);
+				vec2 c = texture2D(coc, vUv).rg;
+
+				// far field
+				vec4 far = textureLod(farMipmaps, vUv, cocLod(c.r));
+				far.rgb /= max(far.a, 1e-4);
+				color.rgb = mix(color.rgb, far.rgb, smoothstep(0.5, 1.5, c.r) * step(1e-4, far.a));
+
+				// near field, dilated so blurred foreground spreads over in-focus pixels
+				float nearCoc = max(c.g, texture2D(nearCocBlurred, vUv).g * 2.0);
+				vec3 near = textureLod(colorMipmaps, vUv, cocLod(nearCoc)).rgb;
+				color.rgb = mix(color.rgb, near, smoothstep(0.5, 1.5, nearCoc));
+
+				gl_FragColor = color;
+			}
+		`,
+		depthTest: false,
+		depthWrite: false,
+	});
+
+	get maxCoc() { return this.cocMaterial.uniforms.maxCoc.value; }
+	set maxCoc(v: number) { this.cocMaterial.uniforms.maxCoc.value = v; }
+
+	get lodBias() { return this.compositeMaterial.uniforms.lodBias.value; }
+	set lodBias(v: number) { this.compositeMaterial.uniforms.lodBias.value = v; }
+
+	/**
+	 * Focus on the nearest `ThreeInteraction` hit under the pointer, sets `focusDistance`
+	 *
+	 * The camera's `focus` is left unchanged because it also sizes the orthographic frustum of `OrthoPerspectiveCamera`
+	 *
+	 * Returns a handle to remove the binding
+	 */
+	bindAutofocus(interaction: ThreeInteraction, options: { on?: 'pointerDown' | 'pointerMove' } = {}) {
+		const signal = interaction.interactionManager.events[options.on ?? 'pointerDown'];
+		// run before ThreeInteraction so object handlers stopping propagation don't block focusing
+		const listener = signal.addListener((event) => {
+			const hit = interaction.intersectSceneWithPointer(event)[0];
+			if (hit == null) return;
+			const camera = interaction.camera;
+			camera.getWorldDirection(_forward);
+			_position.setFromMatrixPosition(camera.matrixWorld);
+			this.autofocusTarget = _forward.dot(_offset.subVectors(hit.point, _position));
+			if (this.focusDistance == null) {
+				this.focusDistance = this.getCameraFocus(camera);
+			}
+		}, interaction.priority + 1);
+		return {
+			remove: () => {
+				listener.remove();
+				this.autofocusTarget = null;
+			}
+		};
+	}
+
+	render(context: PostProcessingContext, source: Texture, target: WebGLRenderTarget | null) {
+		const { renderer, camera, renderTargetStore, width, height } = context;
+
+		this.updateAutofocus(context.dt_s);
+		const focus = Math.max(this.focusDistance ?? this.getCameraFocus(camera), 1e-4);
+
+		// thin lens circle of confusion, in pixels
+		let focalLength = this.fallbackFocalLength;
+		let filmHeight = this.fallbackFilmHeight;
+		if ((camera as PerspectiveCamera).isPerspectiveCamera) {
+			focalLength = (camera as PerspectiveCamera).getFocalLength();
+			filmHeight = (camera as PerspectiveCamera).getFilmHeight();
+		}
+		const aperture = focalLength / this.fStop;
+		const focus_mm = focus * this.worldUnitsToMm;
+		const cocScale = aperture * focalLength / Math.max(focus_mm - focalLength, 1e-4) / filmHeight * height;
+
+		const cocTarget = renderTargetStore.getRenderTarget('dof.coc', width, height, {
+			type: HalfFloatType,
+			magFilter: LinearFilter,
+			minFilter: LinearFilter,
+		})!;
+
+		const cocUniforms = this.cocMaterial.uniforms;
+		cocUniforms.depthTexture.value = context.depthTexture;
+		cocUniforms.cameraProjectionMatrixInverse.value.copy(camera.projectionMatrixInverse);
+		cocUniforms.cocScale.value = cocScale;
+		cocUniforms.focus.value = focus;
+
+		Rendering.shaderMaterialPass(renderer, {
+			shader: this.cocMaterial,
+			target: cocTarget,
+			clearColor: false,
+			clearDepth: false,
+			restoreGlobalState: false,
+		});
+
+		// dilate the near field at half resolution
+		const halfCoc = renderTargetStore.getRenderTarget('dof.coc.half', Math.max(1, width >> 1), Math.max(1, height >> 1), {
+			type: HalfFloatType,
+			magFilter: LinearFilter,
+			minFilter: LinearFilter,
+		})!;
+		Rendering.blit(renderer, {
+			source: cocTarget.texture,
+			target: halfCoc,
+			restoreGlobalState: false,
+		});
+		const nearCocBlurred = gaussianBlur(
+			renderer,
+			renderTargetStore,
+			halfCoc.texture,
+			Math.max(3, Math.round(this.maxCoc * 0.5)),
+			0.5,
+			undefined,
+			null,
+			'dof.coc.near',
+		);
+
+		// blur pyramids for the near field (everything) and the far field (premultiplied, foreground removed)
+		const mipmapOptions = {
+			type: HalfFloatType,
+			magFilter: LinearFilter,
+			minFilter: LinearMipmapLinearFilter,
+			allocateMipmaps: true,
+		} as const;
+		const colorMipmaps = renderTargetStore.getRenderTarget('dof.color', width, height, mipmapOptions)!;
+		const farMipmaps = renderTargetStore.getRenderTarget('dof.far', width, height, mipmapOptions)!;
+
+		Rendering.blit(renderer, {
+			source,
+			target: colorMipmaps,
+			restoreGlobalState: false,
+		});
+
+		this.farFieldMaterial.uniforms.source.value = source;
+		this.farFieldMaterial.uniforms.coc.value = cocTarget.texture;
+		Rendering.shaderMaterialPass(renderer, {
+			shader: this.farFieldMaterial,
+			target: farMipmaps,
+			clearColor: false,
+			clearDepth: false,
+			restoreGlobalState: false,
+		});
+
+		// only sample levels the blur actually wrote
+		let maxLod = Infinity;
+		for (let mipmapTarget of [colorMipmaps, farMipmaps]) {
+			const lastLevel = generateBlurredMipmaps(renderer, {
+				target: mipmapTarget,
+				blurKernel_heightFraction: this.blurKernel_heightFraction,
+				restoreGlobalState: false,
+			});
+			maxLod = Math.min(maxLod, lastLevel, (mipmapTarget.texture.mipmaps?.length ?? 1) - 1);
+		}
+
+		const compositeUniforms = this.compositeMaterial.uniforms;
+		compositeUniforms.source.value = source;
+		compositeUniforms.coc.value = cocTarget.texture;
+		compositeUniforms.nearCocBlurred.value = nearCocBlurred.texture;
+		compositeUniforms.colorMipmaps.value = colorMipmaps.texture;
+		compositeUniforms.farMipmaps.value = farMipmaps.texture;
+		compositeUniforms.maxLod.value = maxLod;
+		effectPass(context, this.compositeMaterial, target);
+	}
+
+	protected getCameraFocus(camera: Camera) {
+		return (camera as PerspectiveCamera).focus ?? 10;
+	}
+
+	/** Autofocus is still moving towards its target */
+	get needsFrame() {
+		if (this.autofocusTarget == null || this.focusDistance == null) return false;
+		return Math.abs(this.autofocusTarget - this.focusDistance) > 1e-3 * Math.max(Math.abs(this.autofocusTarget), 1e-4);
+	}
+
+	protected updateAutofocus(dt_s: number) {
+		if (this.autofocusTarget == null || this.focusDistance == null) return;
+		const t = 1 - Math.exp(-this.autofocusSpeed * dt_s);
+		this.focusDistance += (this.autofocusTarget - this.focusDistance) * t;
+	}
+
+	addDevUI(folder: GUI) {
+		folder.add(this, 'fStop', 0.5, 22, 0.01);
+		folder.add(this, 'maxCoc', 1, 128, 1);
+		folder.add(this, 'lodBias', -2, 2, 0.01);
+		folder.add(this, 'autofocusSpeed', 0, 30, 0.01);
+	}
+
+	dispose() {
+		this.cocMaterial.dispose();
+		this.farFieldMaterial.dispose();
+		this.compositeMaterial.dispose();
+	}
+
+}
+
+const _forward = new Vector3();
+const _position = new Vector3();
+const _offset = new Vector3();
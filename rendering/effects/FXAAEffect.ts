@@ -0,0 +1,109 @@
+import { Texture, Uniform, Vector2, WebGLRenderTarget } from "three";
+import { GUI } from "../../lib/lilgui.module.js";
+import { ShaderMaterial } from "../../materials/ShaderMaterial.js";
+import { effectPass, effectVertexShader, PostProcessingContext, PostProcessingEffect } from "./PostProcessingEffect.js";
+
+/**
+ * Fast approximate anti-aliasing
+ *
+ * Edge detection runs on compressed luminance `l / (1 + l)` so it works on HDR input before tone mapping
+ */
+export class FXAAEffect implements PostProcessingEffect {
+
+	readonly name = 'FXAA';
+	enabled = true;
+
+	readonly material = new ShaderMaterial<{
+		source: Uniform<Texture | null>,
+		invResolution: Uniform<Vector2>,
+		/** Minimum local contrast required to apply anti-aliasing */
+		edgeThreshold: Uniform<number>,
+		/** Minimum contrast in dark regions */
+		edgeThresholdMin: Uniform<number>,
+		/** Maximum blur span in pixels */
+		spanMax: Uniform<number>,
+	}>({
+		uniforms: {
+			source: new Uniform(null),
+			invResolution: new Uniform(new Vector2()),
+			edgeThreshold: new Uniform(1 / 8),
+			edgeThresholdMin: new Uniform(1 / 32),
+			spanMax: new Uniform(8),
+		},
+		vertexShader: effectVertexShader,
+		fragmentShader: /*glsl*/`
+			uniform sampler2D source;
+			uniform vec2 invResolution;
+			uniform float edgeThreshold;
+			uniform float edgeThresholdMin;
+			uniform float spanMax;
+			varying vec2 vUv;
+
+			float luma(vec3 c) {
+				float l = dot(c, vec3(0.2126, 0.7152, 0.0722));
+				return l / (1.0 + l);
+			}
+
+			vec4 sampleOffset(vec2 offset) {
+				return textureLod(source, vUv + offset * invResolution, 0.0);
+			}
+
+			void main() {
+				vec4 colorM = sampleOffset(vec2(0.0));
+				float lumaM = luma(colorM.rgb);
+				float lumaNW = luma(sampleOffset(vec2(-1.0, 1.0)).rgb);
+				float lumaNE = luma(sampleOffset(vec2(1.0, 1.0)).rgb);
+				float lumaSW = luma(sampleOffset(vec2(-1.0, -1.0)).rgb);
+				float lumaSE = luma(sampleOffset(vec2(1.0, -1.0)).rgb);
+
+				float lumaMin = min(lumaM, min(min(lumaNW, lumaNE), min(lumaSW, lumaSE)));
+				float lumaMax = max(lumaM, max(max(lumaNW, lumaNE), max(lumaSW, lumaSE)));
+
+				if (lumaMax - lumaMin < max(edgeThresholdMin, lumaMax * edgeThreshold)) {
+					gl_FragColor = colorM;
+					return;
+				}
+
+				vec2 dir = vec2(
+					-((lumaNW + lumaNE) - (lumaSW + lumaSE)),
+					(lumaNW + lumaSW) - (lumaNE + lumaSE)
+				);
+
+				float dirReduce = max((lumaNW + lumaNE + lumaSW + lumaSE) * 0.25 * (1.0 / 8.0), 1.0 / 128.0);
+				float rcpDirMin = 1.0 / (min(abs(dir.x), abs(dir.y)) + dirReduce);
+				dir = clamp(dir * rcpDirMin, vec2(-spanMax), vec2(spanMax));
+
+				vec4 rgbA = 0.5 * (
+					sampleOffset(dir * (1.0 / 3.0 - 0.5)) +
+					sampleOffset(dir * (2.0 / 3.0 - 0.5))
+				);
+				vec4 rgbB = rgbA * 0.5 + 0.25 * (
+					sampleOffset(dir * -0.5) +
+					sampleOffset(dir * 0.5)
+				);
+
+				float lumaB = luma(rgbB.rgb);
+				gl_FragColor = (lumaB < lumaMin || lumaB > lumaMax) ? rgbA : rgbB;
+			}
+		`,
+		depthTest: false,
+		depthWrite: false,
+	});
+
+	render(context: PostProcessingContext, source: Texture, target: WebGLRenderTarget | null) {
+		this.material.uniforms.source.value = source;
+		this.material.uniforms.invResolution.value.set(1 / context.width, 1 / context.height);
+		effectPass(context, this.material, target);
+	}
+
+	addDevUI(folder: GUI) {
+		folder.add(this.material.uniforms.edgeThreshold, 'value', 0, 0.5, 0.001, 'edgeThreshold');
+		folder.add(this.material.uniforms.edgeThresholdMin, 'value', 0, 0.1, 0.001, 'edgeThresholdMin');
+		folder.add(this.material.uniforms.spanMax, 'value', 1, 16, 1, 'spanMax');
+	}
+
+	dispose() {
+		this.material.dispose();
+	}
+
+}
@@ -0,0 +1,77 @@
+import { Texture, Uniform, WebGLRenderTarget } from "three";
+import { GUI } from "../../lib/lilgui.module.js";
+import { ShaderMaterial } from "../../materials/ShaderMaterial.js";
+import { effectPass, effectVertexShader, PostProcessingContext, PostProcessingEffect } from "./PostProcessingEffect.js";
+
+/**
+ * Animated per-pixel noise, strongest in the midtones
+ */
+export class FilmGrainEffect implements PostProcessingEffect {
+
+	readonly name = 'Film Grain';
+	enabled = true;
+
+	/** When false the grain pattern is the same every frame */
+	animated = true;
+
+	readonly material = new ShaderMaterial<{
+		source: Uniform<Texture | null>,
+		intensity: Uniform<number>,
+		seed: Uniform<number>,
+	}>({
+		uniforms: {
+			source: new Uniform(null),
+			intensity: new Uniform(0.04),
+			seed: new Uniform(0),
+		},
+		vertexShader: effectVertexShader,
+		fragmentShader: /*glsl*/`
+			uniform sampler2D source;
+			uniform float intensity;
+			uniform float seed;
+			varying vec2 vUv;
+
+			// triangular distributed noise in [-1, 1]
+			float grain(vec2 p) {
+				vec3 p3 = fract(vec3(p.xyx) * 0.1031 + seed);
+				p3 += dot(p3, p3.yzx + 33.33);
+				vec2 r = fract((p3.xx + p3.yz) * p3.zy);
+				return r.x + r.y - 1.0;
+			}
+
+			void main() {
+				vec4 color = texture2D(source, vUv);
+
+				// scene is linear HDR at this point, compress luminance to weight the grain
+				float luma = dot(color.rgb, vec3(0.2126, 0.7152, 0.0722));
+				float l = luma / (1.0 + luma);
+				float response = 4.0 * l * (1.0 - l);
+
+				color.rgb *= 1.0 + grain(gl_FragCoord.xy) * intensity * response;
+
+				gl_FragColor = color;
+			}
+		`,
+		depthTest: false,
+		depthWrite: false,
+	});
+
+	get intensity() { return this.material.uniforms.intensity.value; }
+	set intensity(v: number) { this.material.uniforms.intensity.value = v; }
+
+	render(context: PostProcessingContext, source: Texture, target: WebGLRenderTarget | null) {
+		this.material.uniforms.source.value = source;
+		this.material.uniforms.seed.value = this.animated ? (context.frame % 1024) * 0.618034 : 0;
+		effectPass(context, this.material, target);
+	}
+
+	addDevUI(folder: GUI) {
+		folder.add(this, 'intensity', 0, 0.5, 0.001);
+		folder.add(this, 'animated');
+	}
+
+	dispose() {
+		this.material.dispose();
+	}
+
+}
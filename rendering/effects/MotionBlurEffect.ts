@@ -0,0 +1,304 @@
+import { HalfFloatType, Matrix4, NearestFilter, Texture, Uniform, Vector2, WebGLRenderTarget } from "three";
+import { GUI } from "../../lib/lilgui.module.js";
+import { ShaderMaterial } from "../../materials/ShaderMaterial.js";
+import { Rendering } from "../Rendering.js";
+import { effectPass, effectVertexShader, PostProcessingContext, PostProcessingEffect } from "./PostProcessingEffect.js";
+
+/**
+ * Per-object motion blur from the stack's motion vectors
+ *
+ * Velocities are reduced to the largest per tile, then to the largest of neighbouring tiles so blur extends past the silhouette of moving objects.
+ * Samples along the dilated velocity are weighted by depth and their own velocity (McGuire et al. 2012)
+ */
+export class MotionBlurEffect implements PostProcessingEffect {
+
+	readonly name = 'Motion Blur';
+	enabled = true;
+
+	readonly tileMaxMaterial = new ShaderMaterial<{
+		motionVectors: Uniform<Texture | null>,
+		sourceTexelSize: Uniform<Vector2>,
+	}, {
+		TILE_SIZE: string,
+	}>({
+		uniforms: {
+			motionVectors: new Uniform(null),
+			sourceTexelSize: new Uniform(new Vector2()),
+		},
+		defines: {
+			TILE_SIZE: '16',
+		},
+		vertexShader: effectVertexShader,
+		fragmentShader: /*glsl*/`
+			uniform sampler2D motionVectors;
+			uniform vec2 sourceTexelSize;
+			varying vec2 vUv;
+
+			void main() {
+				// first texel of this tile
+				vec2 origin = floor(gl_FragCoord.xy) * float(TILE_SIZE);
+				vec2 maxVelocity = vec2(0.0);
+				float maxLength = 0.0;
+				for (int x = 0; x < TILE_SIZE; x++) {
+					for (int y = 0; y < TILE_SIZE; y++) {
+						vec2 v = texture2D(motionVectors, (origin + vec2(x, y) + 0.5) * sourceTexelSize).rg;
+						float l = dot(v, v);
+						if (l > maxLength) {
+							maxLength = l;
+							maxVelocity = v;
+						}
+					}
+				}
+				gl_FragColor = vec4(maxVelocity, 0.0, 1.0);
+			}
+		`,
+		depthTest: false,
+		depthWrite: false,
+	});
+
+	readonly neighbourMaxMaterial = new ShaderMaterial<{
+		tileMax: Uniform<Texture | null>,
+		tileTexelSize: Uniform<Vector2>,
+	}>({
+		uniforms: {
+			tileMax: new Uniform(null),
+			tileTexelSize: new Uniform(new Vector2()),
+		},
+		vertexShader: effectVertexShader,
+		fragmentShader: /*glsl*/`
+			uniform sampler2D tileMax;
+			uniform vec2 tileTexelSize;
+			varying vec2 vUv;
+
+			void main() {
+				vec2 maxVelocity = vec2(0.0);
+				float maxLength = 0.0;
+				for (int x = -1; x <= 1; x++) {
+					for (int y = -1; y <= 1; y++) {
+						vec2 v = texture2D(tileMax, vUv + vec2(x, y) * tileTexelSize).rg;
+						float l = dot(v, v);
+						if (l > maxLength) {
+							maxLength = l;
+							maxVelocity = v;
+						}
+					}
+				}
+				gl_FragColor = vec4(maxVelocity, 0.0, 1.0);
+			}
+		`,
+		depthTest: false,
+		depthWrite: false,
+	});
+
+	readonly gatherMaterial = new ShaderMaterial<{
+		source: Uniform<Texture | null>,
+		motionVectors: Uniform<Texture | null>,
+		neighbourMax: Uniform<Texture | null>,
+		depthTexture: Uniform<Texture | null>,
+		cameraProjectionMatrixInverse: Uniform<Matrix4>,
+		resolution: Uniform<Vector2>,
+		/** Fraction of the frame the shutter is open for, 0.5 is a 180° shutter */
+		intensity: Uniform<number>,
+		/** Maximum blur length in pixels */
+		maxBlur: Uniform<number>,
+		/** Depth range in view units over which samples blend between foreground and background */
+		softDepth: Uniform<number>,
+		frame: Uniform<number>,
+	}, {
+		SAMPLES: string,
+	}>({
+		uniforms: {
+			source: new Uniform(null),
+			motionVectors: new Uniform(null),
+			neighbourMax: new Uniform(null),
+			depthTexture: new Uniform(null),
+			cameraProjectionMatrixInverse: new Uniform(new Matrix4()),
+			resolution: new Uniform(new Vector2()),
+			intensity: new Uniform(0.5),
+			maxBlur: new Uniform(64),
+			softDepth: new Uniform(0.1),
+			frame: new Uniform(0),
+		},
+		defines: {
+			SAMPLES: '12',
+		},
+		vertexShader: effectVertexShader,
+		fragmentShader: /*glsl*/`
+			uniform sampler2D source;
+			uniform sampler2D motionVectors;
+			uniform sampler2D neighbourMax;
+			uniform sampler2D depthTexture;
+			uniform mat4 cameraProjectionMatrixInverse;
+			uniform vec2 resolution;
+			uniform float intensity;
+			uniform float maxBlur;
+			uniform float softDepth;
+			uniform float frame;
+			varying vec2 vUv;
+
+			float linearDepth(vec2 uv) {
+				vec4 view = cameraProjectionMatrixInverse * vec4(vec3(uv, texture2D(depthTexture, uv).r) * 2.0 - 1.0, 1.0);
+				return -view.z / view.w;
+			}
+
+			// velocity in pixels, scaled by the shutter and clamped
+			vec2 pixelVelocity(vec2 v) {
+				vec2 px = v * resolution * intensity;
+				float l = length(px);
+				return l > maxBlur ? px * (maxBlur / l) : px;
+			}
+
+			float cone(float dist, float velocityLength) {
+				return clamp(1.0 - dist / velocityLength, 0.0, 1.0);
+			}
+
+			float cylinder(float dist, float velocityLength) {
+				return 1.0 - smoothstep(0.95 * velocityLength, 1.05 * velocityLength, dist);
+			}
+
+			float softDepthCompare(float a, float b) {
+				return clamp(1.0 - (a - b) / softDepth, 0.0, 1.0);
+			}
+
+			// interleaved gradient noise
+			float noise(vec2 p) {
+				p += frame * 5.588238;
+				return fract(52.9829189 * fract(dot(p, vec2(0.06711056, 0.00583715))));
+			}
+
+			void main() {
+				vec4 color = texture2D(source, vUv);
+				vec2 vMax = pixelVelocity(texture2D(neighbourMax, vUv).rg);
+				float vMaxLength = length(vMax);
+
+				if (vMaxLength < 0.5) {
+					gl_FragColor = color;
+					return;
+				}
+
+				vec2 vCenter = pixelVelocity(texture2D(motionVectors, vUv).rg);
+				float vCenterLength = max(length(vCenter), 0.5);
+				float zCenter = linearDepth(vUv);
+
+				float weightSum = 1.0 / vCenterLength;
+				vec3 sum = color.rgb * weightSum;
+
+				float jitter = noise(gl_FragCoord.xy) - 0.5;
+
+				for (int i = 0; i < SAMPLES; i++) {
+					// spans -0.5 to 0.5 of the velocity
+					float t = (float(i) + 0.5 + jitter) / float(SAMPLES) - 0.5;
+					vec2 offset = vMax * t;
+					vec2 uv = vUv + offset / resolution;
+
+					float dist = length(offset);
+					float zSample = linearDepth(uv);
+					float vSampleLength = max(length(pixelVelocity(texture2D(motionVectors, uv).rg)), 0.5);
+
+					float foreground = softDepthCompare(zCenter, zSample);
+					float background = softDepthCompare(zSample, zCenter);
+
+					float weight =
+						foreground * cone(dist, vSampleLength) +
+						background * cone(dist, vCenterLength) +
+						cylinder(dist, vSampleLength) * cylinder(dist, vCenterLength) * 2.0;
+
+					sum += texture2D(source, uv).rgb * weight;
+					weightSum += weight;
+				}
+
+				gl_FragColor = vec4(sum / weightSum, color.a);
+			}
+		`,
+		depthTest: false,
+		depthWrite: false,
+	});
+
+	get tileSize() { return parseInt(this.tileMaxMaterial.defines.TILE_SIZE); }
+	set tileSize(v: number) {
+		const value = Math.max(1, Math.floor(v)).toFixed(0);
+		if (value !== this.tileMaxMaterial.defines.TILE_SIZE) {
+			this.tileMaxMaterial.defines.TILE_SIZE = value;
+			this.tileMaxMaterial.needsUpdate = true;
+		}
+	}
+
+	get samples() { return parseInt(this.gatherMaterial.defines.SAMPLES); }
+	set samples(v: number) {
+		const value = Math.max(2, Math.floor(v)).toFixed(0);
+		if (value !== this.gatherMaterial.defines.SAMPLES) {
+			this.gatherMaterial.defines.SAMPLES = value;
+			this.gatherMaterial.needsUpdate = true;
+		}
+	}
+
+	get intensity() { return this.gatherMaterial.uniforms.intensity.value; }
+	set intensity(v: number) { this.gatherMaterial.uniforms.intensity.value = v; }
+
+	get maxBlur() { return this.gatherMaterial.uniforms.maxBlur.value; }
+	set maxBlur(v: number) { this.gatherMaterial.uniforms.maxBlur.value = v; }
+
+	get softDepth() { return this.gatherMaterial.uniforms.softDepth.value; }
+	set softDepth(v: number) { this.gatherMaterial.uniforms.softDepth.value = v; }
+
+	render(context: PostProcessingContext, source: Texture, target: WebGLRenderTarget | null) {
+		const { renderer, renderTargetStore, width, height } = context;
+		const motionVectors = context.getMotionVectors();
+		const tileSize = this.tileSize;
+
+		const tileOptions = {
+			type: HalfFloatType,
+			magFilter: NearestFilter,
+			minFilter: NearestFilter,
+		} as const;
+		const tilesWidth = Math.max(1, Math.ceil(width / tileSize));
+		const tilesHeight = Math.max(1, Math.ceil(height / tileSize));
+		const tileMax = renderTargetStore.getRenderTarget('motionBlur.tileMax', tilesWidth, tilesHeight, tileOptions)!;
+		const neighbourMax = renderTargetStore.getRenderTarget('motionBlur.neighbourMax', tilesWidth, tilesHeight, tileOptions)!;
+
+		this.tileMaxMaterial.uniforms.motionVectors.value = motionVectors;
+		this.tileMaxMaterial.uniforms.sourceTexelSize.value.set(1 / width, 1 / height);
+		Rendering.shaderMaterialPass(renderer, {
+			shader: this.tileMaxMaterial,
+			target: tileMax,
+			clearColor: false,
+			clearDepth: false,
+			restoreGlobalState: false,
+		});
+
+		this.neighbourMaxMaterial.uniforms.tileMax.value = tileMax.texture;
+		this.neighbourMaxMaterial.uniforms.tileTexelSize.value.set(1 / tilesWidth, 1 / tilesHeight);
+		Rendering.shaderMaterialPass(renderer, {
+			shader: this.neighbourMaxMaterial,
+			target: neighbourMax,
+			clearColor: false,
+			clearDepth: false,
+			restoreGlobalState: false,
+		});
+
+		const uniforms = this.gatherMaterial.uniforms;
+		uniforms.source.value = source;
+		uniforms.motionVectors.value = motionVectors;
+		uniforms.neighbourMax.value = neighbourMax.texture;
+		uniforms.depthTexture.value = context.depthTexture;
+		uniforms.cameraProjectionMatrixInverse.value.copy(context.camera.projectionMatrixInverse);
+		uniforms.resolution.value.set(width, height);
+		uniforms.frame.value = context.frame % 64;
+		effectPass(context, this.gatherMaterial, target);
+	}
+
+	addDevUI(folder: GUI) {
+		folder.add(this, 'intensity', 0, 2, 0.001);
+		folder.add(this, 'maxBlur', 1, 256, 1);
+		folder.add(this, 'softDepth', 0.001, 2, 0.001);
+		folder.add(this, 'samples', 2, 32, 1);
+		folder.add(this, 'tileSize', 4, 40, 1);
+	}
+
+	dispose() {
+		this.tileMaxMaterial.dispose();
+		this.neighbourMaxMaterial.dispose();
+		this.gatherMaterial.dispose();
+	}
+
+}
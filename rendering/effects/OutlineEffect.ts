@@ -0,0 +1,345 @@
+import { Color, CustomBlending, FrontSide, MaxEquation, Material, NearestFilter, Object3D, OneFactor, Side, Texture, Uniform, UnsignedByteType, Vector2, WebGLRenderTarget } from "three";
+import { GUI } from "../../lib/lilgui.module.js";
+import { ShaderMaterial } from "../../materials/ShaderMaterial.js";
+import { ThreeInteraction } from "../../interaction/ThreeInteraction.js";
+import { gaussianBlur } from "../GaussianBlur.js";
+import { Rendering } from "../Rendering.js";
+import { effectPass, effectVertexShader, PostProcessingContext, PostProcessingEffect } from "./PostProcessingEffect.js";
+
+/**
+ * Draws outlines around selected and hovered objects
+ *
+ * Silhouettes are rendered into a mask, split into visible and occluded parts using the scene depth, then dilated with a gaussian blur.
+ * Outlines of occluded parts are drawn with `occludedOpacity` and the occluded interior can be tinted with `occludedFill`
+ *
+ * @example
+ * ```typescript
+ * const outline = new OutlineEffect();
+ * stack.addEffect(outline);
+ * outline.bindToInteraction(viewer.threeInteraction, { hover: true, select: true });
+ * ```
+ */
+export class OutlineEffect implements PostProcessingEffect {
+
+	readonly name = 'Outline';
+	enabled = true;
+
+	/** Objects outlined with `selectionColor` */
+	readonly selection = new Set<Object3D>();
+	/** Objects outlined with `hoverColor`, replaced each frame when bound to interaction hover */
+	readonly hovered = new Set<Object3D>();
+
+	/** Approximate outline width in pixels of the post-processing buffers */
+	width = 3;
+
+	protected maskMaterials = new Map<string, OutlineMaskMaterial>();
+	protected hiddenMaterial = new OutlineMaskMaterial(FrontSide, 0, 0);
+	protected hoverBindings = new Set<ThreeInteraction>();
+
+	readonly compositeMaterial = new ShaderMaterial<{
+		source: Uniform<Texture | null>,
+		mask: Uniform<Texture | null>,
+		dilatedMask: Uniform<Texture | null>,
+		selectionColor: Uniform<Color>,
+		hoverColor: Uniform<Color>,
+		/** Scales the blurred mask before clamping, higher values give harder and wider outlines */
+		hardness: Uniform<number>,
+		/** Opacity of outlines around occluded parts */
+		occludedOpacity: Uniform<number>,
+		/** Opacity of the outline color over occluded parts */
+		occludedFill: Uniform<number>,
+	}>({
+		uniforms: {
+			source: new Uniform(null),
+			mask: new Uniform(null),
+			dilatedMask: new Uniform(null),
+			selectionColor: new Uniform(new Color(0xff9a1f)),
+			hoverColor: new Uniform(new Color(0xffffff)),
+			hardness: new Uniform(4),
+			occludedOpacity: new Uniform(0.35),
+			occludedFill: new Uniform(0),
+		},
+		vertexShader: effectVertexShader,
+		fragmentShader: /*glsl*/`
+			uniform sampler2D source;
+			uniform sampler2D mask;
+			uniform sampler2D dilatedMask;
+			uniform vec3 selectionColor;
+			uniform vec3 hoverColor;
+			uniform float hardness;
+			uniform float occludedOpacity;
+			uniform float occludedFill;
+			varying vec2 vUv;
+
+			// mask: r, g = visible selected, hovered; b, a = all selected, hovered
+			vec2 outlineAlpha(vec4 m, vec4 d) {
+				// outlines are only drawn outside of the silhouette
+				vec2 outside = 1.0 - m.ba;
+				vec2 visible = clamp(d.rg * hardness, 0.0, 1.0) * outside;
+				vec2 all = clamp(d.ba * hardness, 0.0, 1.0) * outside;
+				vec2 occluded = max(all - visible, 0.0) * occludedOpacity + max(m.ba - m.rg, 0.0) * occludedFill;
+				return clamp(visible + occluded, 0.0, 1.0);
+			}
+
+			void main() {
+				vec4 color = texture2D(source, vUv);
+				vec2 alpha = outlineAlpha(texture2D(mask, vUv), texture2D(dilatedMask, vUv));
+
+				color.rgb = mix(color.rgb, selectionColor, alpha.x);
+				color.rgb = mix(color.rgb, hoverColor, alpha.y);
+
+				gl_FragColor = color;
+			}
+		`,
+		depthTest: false,
+		depthWrite: false,
+	});
+
+	constructor() {
+		this.hiddenMaterial.visible = false;
+	}
+
+	get selectionColor() { return this.compositeMaterial.uniforms.selectionColor.value; }
+	get hoverColor() { return this.compositeMaterial.uniforms.hoverColor.value; }
+
+	get hardness() { return this.compositeMaterial.uniforms.hardness.value; }
+	set hardness(v: number) { this.compositeMaterial.uniforms.hardness.value = v; }
+
+	get occludedOpacity() { return this.compositeMaterial.uniforms.occludedOpacity.value; }
+	set occludedOpacity(v: number) { this.compositeMaterial.uniforms.occludedOpacity.value = v; }
+
+	get occludedFill() { return this.compositeMaterial.uniforms.occludedFill.value; }
+	set occludedFill(v: number) { this.compositeMaterial.uniforms.occludedFill.value = v; }
+
+	/**
+	 * Drive `hovered` and `selection` from a `ThreeInteraction`
+	 * - `hover`: `hovered` mirrors `interaction.hoveredObjects` every frame
+	 * - `select`: clicking an interactive object selects it, shift-click toggles, clicking empty space clears the selection
+	 *
+	 * Returns a handle to remove the binding
+	 */
+	bindToInteraction(interaction: ThreeInteraction, options: { hover?: boolean, select?: boolean } = { hover: true }) {
+		const listeners = new Array<{ remove: () => void }>();
+
+		if (options.hover) {
+			this.hoverBindings.add(interaction);
+		}
+
+		if (options.select) {
+			const events = interaction.interactionManager.events;
+			const downPositions = new Map<number, { x: number, y: number }>();
+			// run before ThreeInteraction so object handlers stopping propagation don't hide the click
+			const priority = interaction.priority + 1;
+
+			listeners.push(
+				events.pointerDown.addListener((event) => {
+					downPositions.set(event.pointerId, { x: event.clientX, y: event.clientY });
+				}, priority),
+				events.pointerUp.addListener((event) => {
+					const down = downPositions.get(event.pointerId);
+					downPositions.delete(event.pointerId);
+					// ignore drags, for example orbiting the camera
+					if (down == null || Math.hypot(event.clientX - down.x, event.clientY - down.y) > 4) return;
+
+					const object = interaction.intersectSceneWithPointer(event)[0]?.object;
+					if (!event.shiftKey) {
+						this.selection.clear();
+					}
+					if (object != null) {
+						if (event.shiftKey && this.selection.has(object)) {
+							this.selection.delete(object);
+						} else {
+							this.selection.add(object);
+						}
+					}
+				}, priority),
+				events.pointerCancel.addListener((event) => {
+					downPositions.delete(event.pointerId);
+				}, priority),
+			);
+		}
+
+		return {
+			remove: () => {
+				this.hoverBindings.delete(interaction);
+				for (let listener of listeners) {
+					listener.remove();
+				}
+			}
+		};
+	}
+
+	render(context: PostProcessingContext, source: Texture, target: WebGLRenderTarget | null) {
+		const { renderer, renderTargetStore } = context;
+
+		if (this.hoverBindings.size > 0) {
+			this.hovered.clear();
+			for (let interaction of this.hoverBindings) {
+				for (let id in interaction.hoveredObjects) {
+					for (let object of interaction.hoveredObjects[id] ?? []) {
+						this.hovered.add(object);
+					}
+				}
+			}
+		}
+
+		const compositeUniforms = this.compositeMaterial.uniforms;
+		compositeUniforms.source.value = source;
+
+		if (this.selection.size === 0 && this.hovered.size === 0) {
+			// nothing to outline, pass through
+			compositeUniforms.mask.value = null;
+			compositeUniforms.dilatedMask.value = null;
+			Rendering.blit(renderer, {
+				source,
+				target,
+				viewport: target === context.outputTarget ? context.outputViewport : undefined,
+				restoreGlobalState: false,
+			});
+			return;
+		}
+
+		const maskTarget = renderTargetStore.getRenderTarget('outline.mask', context.width, context.height, {
+			type: UnsignedByteType,
+			magFilter: NearestFilter,
+			minFilter: NearestFilter,
+			depthBuffer: false,
+		})!;
+
+		const selected = this.getOutlinedObjects(this.selection);
+		const hovered = this.getOutlinedObjects(this.hovered);
+
+		Rendering.renderPass(renderer, {
+			scene: context.scene,
+			camera: context.camera,
+			target: maskTarget,
+			clearColor: { rgb: 0x000000, alpha: 0 },
+			clearDepth: false,
+			overrideMaterial: (object) => {
+				const s = selected.has(object) ? 1 : 0;
+				const h = hovered.has(object) ? 1 : 0;
+				if (s === 0 && h === 0) {
+					return this.hiddenMaterial;
+				}
+				const getMaterial = (m: Material) => this.getMaskMaterial(m.side, s, h, context);
+				return Array.isArray(object.material) ? object.material.map(getMaterial) : getMaterial(object.material);
+			},
+			restoreGlobalState: false,
+		});
+
+		const dilated = gaussianBlur(
+			renderer,
+			renderTargetStore,
+			maskTarget.texture,
+			Math.max(1, Math.round(this.width)) * 2 + 1,
+			0.5,
+			undefined,
+			null,
+			'outline.mask',
+		);
+
+		compositeUniforms.mask.value = maskTarget.texture;
+		compositeUniforms.dilatedMask.value = dilated.texture;
+		effectPass(context, this.compositeMaterial, target);
+	}
+
+	/**
+	 * Outlined objects and their descendants, so selecting a group outlines its meshes
+	 */
+	protected getOutlinedObjects(roots: Set<Object3D>) {
+		const objects = new Set<Object3D>();
+		for (let root of roots) {
+			root.traverse((object) => { objects.add(object); });
+		}
+		return objects;
+	}
+
+	protected getMaskMaterial(side: Side, selected: number, hovered: number, context: PostProcessingContext) {
+		const key = `${side}:${selected}:${hovered}`;
+		let material = this.maskMaterials.get(key);
+		if (material == null) {
+			material = new OutlineMaskMaterial(side, selected, hovered);
+			this.maskMaterials.set(key, material);
+		}
+		material.uniforms.sceneDepth.value = context.depthTexture;
+		material.uniforms.invResolution.value.set(1 / context.width, 1 / context.height);
+		return material;
+	}
+
+	addDevUI(folder: GUI) {
+		folder.add(this, 'width', 1, 16, 1);
+		folder.add(this, 'hardness', 1, 16, 0.01);
+		folder.add(this, 'occludedOpacity', 0, 1, 0.001);
+		folder.add(this, 'occludedFill', 0, 1, 0.001);
+		folder.addColor(this, 'selectionColor');
+		folder.addColor(this, 'hoverColor');
+	}
+
+	dispose() {
+		for (let material of this.maskMaterials.values()) {
+			material.dispose();
+		}
+		this.maskMaterials.clear();
+		this.hiddenMaterial.dispose();
+		this.compositeMaterial.dispose();
+		this.hoverBindings.clear();
+	}
+
+}
+
+/**
+ * Writes `(visible selected, visible hovered, selected, hovered)`, visibility is tested against the scene depth
+ */
+class OutlineMaskMaterial extends ShaderMaterial<{
+	sceneDepth: Uniform<Texture | null>,
+	invResolution: Uniform<Vector2>,
+	groups: Uniform<Vector2>,
+}> {
+
+	constructor(side: Side, selected: number, hovered: number) {
+		super({
+			uniforms: {
+				sceneDepth: new Uniform(null),
+				invResolution: new Uniform(new Vector2()),
+				groups: new Uniform(new Vector2(selected, hovered)),
+			},
+			vertexShader: /*glsl*/`
+				#include <common>
+				#include <batching_pars_vertex>
+				#include <morphtarget_pars_vertex>
+				#include <skinning_pars_vertex>
+
+				void main() {
+					#include <batching_vertex>
+					#include <skinbase_vertex>
+
+					#include <begin_vertex>
+					#include <morphtarget_vertex>
+					#include <skinning_vertex>
+					#include <project_vertex>
+				}
+			`,
+			fragmentShader: /*glsl*/`
+				uniform sampler2D sceneDepth;
+				uniform vec2 invResolution;
+				uniform vec2 groups;
+
+				void main() {
+					float depth = texture2D(sceneDepth, gl_FragCoord.xy * invResolution).r;
+					float visible = gl_FragCoord.z <= depth + 1e-5 ? 1.0 : 0.0;
+					gl_FragColor = vec4(groups * visible, groups);
+				}
+			`,
+			side,
+			depthTest: false,
+			depthWrite: false,
+			// overlapping silhouettes combine
+			blending: CustomBlending,
+			blendEquation: MaxEquation,
+			blendEquationAlpha: MaxEquation,
+			blendSrc: OneFactor,
+			blendDst: OneFactor,
+		});
+	}
+
+}
@@ -0,0 +1,42 @@
+import { Texture, ToneMapping, WebGLRenderTarget } from "three";
+import { GUI } from "../../lib/lilgui.module.js";
+import { Rendering } from "../Rendering.js";
+import { PostProcessingContext, PostProcessingEffect } from "./PostProcessingEffect.js";
+
+/**
+ * Applies tone mapping and converts to the output color space
+ *
+ * Tone mapping and exposure default to the values the stack was rendered with (the viewer's `toneMapping` option)
+ *
+ * three.js only applies tone mapping and the output color space when writing to the canvas, so this should be the last effect
+ */
+export class OutputEffect implements PostProcessingEffect {
+
+	readonly name = 'Output';
+	enabled = true;
+
+	/** Overrides the stack's tone mapping when set */
+	toneMapping: ToneMapping | undefined = undefined;
+	/** Multiplies the stack's exposure */
+	exposure = 1;
+
+	render(context: PostProcessingContext, source: Texture, target: WebGLRenderTarget | null) {
+		const { renderPassOptions } = context;
+		Rendering.blit(context.renderer, {
+			source,
+			target,
+			viewport: target === context.outputTarget ? context.outputViewport : undefined,
+			applyOutputColorSpace: true,
+			toneMapping: this.toneMapping ?? renderPassOptions.toneMapping,
+			toneMappingExposure: (renderPassOptions.toneMappingExposure ?? 1) * this.exposure,
+			restoreGlobalState: false,
+		});
+	}
+
+	addDevUI(folder: GUI) {
+		folder.add(this, 'exposure', 0, 4, 0.001);
+	}
+
+	dispose() {}
+
+}
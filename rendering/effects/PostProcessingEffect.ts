@@ -0,0 +1,91 @@
+import { Camera, DepthTexture, Material, Mesh, Scene, Texture, Vector4, WebGLRenderer, WebGLRenderTarget } from "three";
+import { GUI } from "../../lib/lilgui.module.js";
+import { Rendering } from "../Rendering.js";
+import RenderTargetStore from "../RenderTargetStore.js";
+
+export type PostProcessingContext = {
+	renderer: WebGLRenderer,
+	scene: Mesh | Scene,
+	camera: Camera,
+	/** Options the stack was rendered with, for example the viewer's scene render options */
+	renderPassOptions: Rendering.RenderPassOptions,
+	/** Size of the HDR buffers in pixels */
+	width: number,
+	height: number,
+	/** Scene depth, valid once the scene has been rendered */
+	depthTexture: DepthTexture,
+	/**
+	 * View normals, roughness and reflector mask of the scene, see `NormalBufferRenderer`
+	 *
+	 * Rendered on first use each frame and shared between effects
+	 */
+	getNormalBuffer: () => Texture,
+	/**
+	 * Screen-space motion `currentUv - previousUv` in `rg`, see `MotionVectorRenderer`
+	 *
+	 * Rendered on first use each frame and shared between effects. Previous matrices are only tracked on frames it's requested
+	 */
+	getMotionVectors: () => Texture,
+	/** Final target of the stack, `null` for the canvas */
+	outputTarget: WebGLRenderTarget | null,
+	/** Viewport to use when writing to `outputTarget` */
+	outputViewport: Vector4 | undefined,
+	/** Store for intermediate targets, effects should prefix keys with their name */
+	renderTargetStore: RenderTargetStore,
+	/** Incremented every time the stack renders */
+	frame: number,
+	/** Seconds since the previous frame, from the viewer's frame time when rendered by a viewer so it's deterministic under `FrameCapture` */
+	dt_s: number,
+	/**
+	 * Maps buffer UV to UV of the full frame, `screenUv = uv * xy + zw`
+	 *
+	 * Identity unless the camera has a view offset (tiled rendering), effects that depend on screen position (vignette, lens distortion) should use it
+	 */
+	screenUvTransform: Vector4,
+}
+
+/**
+ * A post-processing effect reads `source` and writes the result into `target`
+ */
+export interface PostProcessingEffect {
+	readonly name: string;
+	enabled: boolean;
+	/** `target` is the stack's output target when this is the last enabled effect */
+	render(context: PostProcessingContext, source: Texture, target: WebGLRenderTarget | null): void;
+	/** Called before the scene is rendered, for example to jitter the camera. Must be undone in `afterSceneRender()` */
+	beforeSceneRender?(context: PostProcessingContext): void;
+	/** Called after the scene is rendered, before any effect renders */
+	afterSceneRender?(context: PostProcessingContext): void;
+	/** Called after the WebGL context is restored, effects keeping history between frames should reallocate and reset it */
+	restoreContext?(): void;
+	/** True while the effect's output keeps changing without the scene changing (converging history, transitions, resources loading), so viewers rendering on demand request another frame */
+	readonly needsFrame?: boolean;
+	/** Expose parameters in a DevUI folder */
+	addDevUI?(folder: GUI): void;
+	dispose(): void;
+}
+
+/**
+ * Vertex shader for fullscreen effect materials, provides `vUv`
+ */
+export const effectVertexShader = /*glsl*/`
+	varying vec2 vUv;
+	void main() {
+		vUv = uv;
+		gl_Position = vec4(position, 1.0);
+	}
+`;
+
+/**
+ * Fullscreen pass that respects the output viewport when writing to the stack's output
+ */
+export function effectPass(context: PostProcessingContext, shader: Material, target: WebGLRenderTarget | null) {
+	Rendering.shaderMaterialPass(context.renderer, {
+		shader,
+		target,
+		viewport: target === context.outputTarget ? context.outputViewport : undefined,
+		clearColor: false,
+		clearDepth: false,
+		restoreGlobalState: false,
+	});
+}
@@ -0,0 +1,393 @@
+import { DepthTexture, HalfFloatType, Layers, LinearFilter, Matrix4, NearestFilter, Texture, Uniform, UnsignedIntType, Vector2, Vector3, WebGLRenderTarget } from "three";
+import { GUI } from "../../lib/lilgui.module.js";
+import { ShaderMaterial } from "../../materials/ShaderMaterial.js";
+import { BlueNoise } from "../../noise/BlueNoise.js";
+import { Layer } from "../Layer.js";
+import { normalBufferGLSL, NormalBufferRenderer } from "../NormalBufferRenderer.js";
+import { Rendering } from "../Rendering.js";
+import { effectPass, effectVertexShader, PostProcessingContext, PostProcessingEffect } from "./PostProcessingEffect.js";
+
+/**
+ * Screen-space ambient occlusion
+ *
+ * Before the scene renders, a depth + normal buffer is rendered (including `occluderLayers`, by default `Layer.DepthPrepass`), occlusion is computed at `resolutionScale` with a blue-noise rotated hemisphere kernel, then upsampled to full resolution with a depth-aware blur
+ *
+ * - `mode = 'composite'`: the scene color is multiplied by the occlusion
+ * - `mode = 'material'`: the effect passes through, set `CustomPhysicalMaterial.ambientOcclusionBuffer = ssao` so occlusion only darkens indirect light
+ *
+ * @example
+ * ```typescript
+ * const ssao = stack.addEffect(new SSAOEffect(), 0);
+ * ```
+ */
+export class SSAOEffect implements PostProcessingEffect {
+
+	readonly name = 'SSAO';
+	enabled = true;
+
+	mode: 'composite' | 'material' = 'composite';
+	/** Occlusion resolution relative to the stack's buffers */
+	resolutionScale = 0.5;
+	/** Objects in these layers occlude even if the camera doesn't render them */
+	readonly occluderLayers = new Layers();
+	/** Camera layers combined with `occluderLayers`, updated each frame */
+	protected readonly normalBufferLayers = new Layers();
+
+	readonly normalBufferRenderer = new NormalBufferRenderer();
+	readonly depthTexture: DepthTexture;
+
+	protected result: WebGLRenderTarget | null = null;
+	protected blueNoiseReady = false;
+
+	readonly occlusionMaterial = new ShaderMaterial<{
+		depthTexture: Uniform<Texture | null>,
+		normalBuffer: Uniform<Texture | null>,
+		blueNoise: Uniform<Texture | null>,
+		noiseScale: Uniform<Vector2>,
+		noiseOffset: Uniform<Vector2>,
+		kernel: Uniform<Vector3[]>,
+		cameraProjectionMatrix: Uniform<Matrix4>,
+		cameraProjectionMatrixInverse: Uniform<Matrix4>,
+		/** Sampling radius in view space units */
+		radius: Uniform<number>,
+		/** Depth offset to avoid self-occlusion */
+		bias: Uniform<number>,
+	}, {
+		SAMPLES: string,
+	}>({
+		uniforms: {
+			depthTexture: new Uniform(null),
+			normalBuffer: new Uniform(null),
+			blueNoise: new Uniform(null),
+			noiseScale: new Uniform(new Vector2()),
+			noiseOffset: new Uniform(new Vector2()),
+			kernel: new Uniform([]),
+			cameraProjectionMatrix: new Uniform(new Matrix4()),
+			cameraProjectionMatrixInverse: new Uniform(new Matrix4()),
+			radius: new Uniform(0.5),
+			bias: new Uniform(0.02),
+		},
+		defines: {
+			SAMPLES: '16',
+		},
+		vertexShader: effectVertexShader,
+		fragmentShader: /*glsl*/`
+			uniform sampler2D depthTexture;
+			uniform sampler2D normalBuffer;
+			uniform sampler2D blueNoise;
+			uniform vec2 noiseScale;
+			uniform vec2 noiseOffset;
+			uniform vec3 kernel[SAMPLES];
+			uniform mat4 cameraProjectionMatrix;
+			uniform mat4 cameraProjectionMatrixInverse;
+			uniform float radius;
+			uniform float bias;
+			varying vec2 vUv;
+
+			${normalBufferGLSL}
+
+			vec3 viewPosition(vec2 uv, float depth) {
+				vec4 p = cameraProjectionMatrixInverse * vec4(vec3(uv, depth) * 2.0 - 1.0, 1.0);
+				return p.xyz / p.w;
+			}
+
+			void main() {
+				float depth = texture2D(depthTexture, vUv).r;
+				if (depth >= 1.0) {
+					gl_FragColor = vec4(1.0, 0.0, 0.0, 1.0);
+					return;
+				}
+
+				vec3 p = viewPosition(vUv, depth);
+				vec3 n = normalBufferViewNormal(texture2D(normalBuffer, vUv));
+
+				// rotate the kernel around the normal per pixel
+				vec2 noise = texture2D(blueNoise, vUv * noiseScale + noiseOffset).rg;
+				float angle = noise.r * 6.283185307;
+				vec3 helper = abs(n.z) < 0.999 ? vec3(0.0, 0.0, 1.0) : vec3(1.0, 0.0, 0.0);
+				vec3 t = normalize(cross(helper, n));
+				vec3 b = cross(n, t);
+				vec3 tangent = t * cos(angle) + b * sin(angle);
+				vec3 bitangent = cross(n, tangent);
+				mat3 tbn = mat3(tangent, bitangent, n);
+
+				float occlusion = 0.0;
+				for (int i = 0; i < SAMPLES; i++) {
+					vec3 s = p + tbn * kernel[i] * radius * (0.5 + noise.g);
+					vec4 clip = cameraProjectionMatrix * vec4(s, 1.0);
+					vec2 uv = clip.xy / clip.w * 0.5 + 0.5;
+					float sceneZ = viewPosition(uv, texture2D(depthTexture, uv).r).z;
+					float range = smoothstep(0.0, 1.0, radius / abs(p.z - sceneZ));
+					occlusion += (sceneZ >= s.z + bias ? 1.0 : 0.0) * range;
+				}
+
+				// g stores linear depth for the bilateral upsample
+				gl_FragColor = vec4(1.0 - occlusion / float(SAMPLES), -p.z, 0.0, 1.0);
+			}
+		`,
+		depthTest: false,
+		depthWrite: false,
+	});
+
+	readonly upsampleMaterial = new ShaderMaterial<{
+		occlusion: Uniform<Texture | null>,
+		depthTexture: Uniform<Texture | null>,
+		occlusionTexelSize: Uniform<Vector2>,
+		cameraProjectionMatrixInverse: Uniform<Matrix4>,
+		/** Higher values preserve edges more strongly */
+		depthSharpness: Uniform<number>,
+		/** Strength of the occlusion, 0 disables */
+		intensity: Uniform<number>,
+		/** Contrast of the occlusion */
+		power: Uniform<number>,
+	}>({
+		uniforms: {
+			occlusion: new Uniform(null),
+			depthTexture: new Uniform(null),
+			occlusionTexelSize: new Uniform(new Vector2()),
+			cameraProjectionMatrixInverse: new Uniform(new Matrix4()),
+			depthSharpness: new Uniform(16),
+			intensity: new Uniform(1),
+			power: new Uniform(1.5),
+		},
+		vertexShader: effectVertexShader,
+		fragmentShader: /*glsl*/`
+			uniform sampler2D occlusion;
+			uniform sampler2D depthTexture;
+			uniform vec2 occlusionTexelSize;
+			uniform mat4 cameraProjectionMatrixInverse;
+			uniform float depthSharpness;
+			uniform float intensity;
+			uniform float power;
+			varying vec2 vUv;
+
+			void main() {
+				float depth = texture2D(depthTexture, vUv).r;
+				vec4 view = cameraProjectionMatrixInverse * vec4(vec3(vUv, depth) * 2.0 - 1.0, 1.0);
+				float z = -view.z / view.w;
+
+				float sum = 0.0;
+				float weightSum = 0.0;
+				for (int x = -2; x <= 2; x++) {
+					for (int y = -2; y <= 2; y++) {
+						vec2 offset = vec2(x, y);
+						vec2 s = texture2D(occlusion, vUv + offset * occlusionTexelSize).rg;
+						float w = exp(-dot(offset, offset) * 0.25) / (1e-3 + abs(s.g - z) / max(z, 1e-3) * depthSharpness);
+						sum += s.r * w;
+						weightSum += w;
+					}
+				}
+
+				float ao = weightSum > 0.0 ? sum / weightSum : 1.0;
+				ao = mix(1.0, pow(clamp(ao, 0.0, 1.0), power), intensity);
+				gl_FragColor = vec4(ao, ao, ao, 1.0);
+			}
+		`,
+		depthTest: false,
+		depthWrite: false,
+	});
+
+	readonly compositeMaterial = new ShaderMaterial<{
+		source: Uniform<Texture | null>,
+		occlusion: Uniform<Texture | null>,
+	}>({
+		uniforms: {
+			source: new Uniform(null),
+			occlusion: new Uniform(null),
+		},
+		vertexShader: effectVertexShader,
+		fragmentShader: /*glsl*/`
+			uniform sampler2D source;
+			uniform sampler2D occlusion;
+			varying vec2 vUv;
+
+			void main() {
+				vec4 color = texture2D(source, vUv);
+				color.rgb *= texture2D(occlusion, vUv).r;
+				gl_FragColor = color;
+			}
+		`,
+		depthTest: false,
+		depthWrite: false,
+	});
+
+	constructor() {
+		this.occluderLayers.set(Layer.DepthPrepass);
+		this.depthTexture = new DepthTexture(1, 1, UnsignedIntType);
+		this.depthTexture.minFilter = NearestFilter;
+		this.depthTexture.magFilter = NearestFilter;
+		this.updateKernel();
+		// start generating ahead of the first frame, it's white noise until ready
+		this.occlusionMaterial.uniforms.blueNoise.value = BlueNoise.getTexture();
+		BlueNoise.getTextureAsync().then(() => this.blueNoiseReady = true);
+	}
+
+	/** Renders until blue noise replaces the placeholder white noise */
+	get needsFrame() {
+		return !this.blueNoiseReady;
+	}
+
+	/**
+	 * Full resolution occlusion from the last frame, 1 is unoccluded
+	 */
+	get texture(): Texture | null {
+		return this.result?.texture ?? null;
+	}
+
+	get samples() { return parseInt(this.occlusionMaterial.defines.SAMPLES); }
+	set samples(v: number) {
+		const value = Math.max(1, Math.floor(v)).toFixed(0);
+		if (value !== this.occlusionMaterial.defines.SAMPLES) {
+			this.occlusionMaterial.defines.SAMPLES = value;
+			this.occlusionMaterial.needsUpdate = true;
+			this.updateKernel();
+		}
+	}
+
+	get radius() { return this.occlusionMaterial.uniforms.radius.value; }
+	set radius(v: number) { this.occlusionMaterial.uniforms.radius.value = v; }
+
+	get bias() { return this.occlusionMaterial.uniforms.bias.value; }
+	set bias(v: number) { this.occlusionMaterial.uniforms.bias.value = v; }
+
+	get intensity() { return this.upsampleMaterial.uniforms.intensity.value; }
+	set intensity(v: number) { this.upsampleMaterial.uniforms.intensity.value = v; }
+
+	get power() { return this.upsampleMaterial.uniforms.power.value; }
+	set power(v: number) { this.upsampleMaterial.uniforms.power.value = v; }
+
+	get depthSharpness() { return this.upsampleMaterial.uniforms.depthSharpness.value; }
+	set depthSharpness(v: number) { this.upsampleMaterial.uniforms.depthSharpness.value = v; }
+
+	/**
+	 * Hemisphere samples on a fibonacci spiral, denser towards the center
+	 */
+	protected updateKernel() {
+		const count = this.samples;
+		const kernel = new Array<Vector3>();
+		const goldenAngle = Math.PI * (3 - Math.sqrt(5));
+		for (let i = 0; i < count; i++) {
+			const z = 1 - (i + 0.5) / count;
+			const r = Math.sqrt(1 - z * z);
+			const phi = i * goldenAngle;
+			const t = (i + 1) / count;
+			const scale = 0.1 + 0.9 * t * t;
+			kernel.push(new Vector3(Math.cos(phi) * r, Math.sin(phi) * r, z).multiplyScalar(scale));
+		}
+		this.occlusionMaterial.uniforms.kernel.value = kernel;
+	}
+
+	/**
+	 * Occlusion is computed before the scene renders so `mode = 'material'` reads it in the same frame
+	 */
+	beforeSceneRender(context: PostProcessingContext) {
+		const { renderer, camera, renderTargetStore, width, height } = context;
+
+		const normalTarget = renderTargetStore.getRenderTarget('ssao.normals', width, height, {
+			type: HalfFloatType,
+			magFilter: NearestFilter,
+			minFilter: NearestFilter,
+			depthTexture: this.depthTexture,
+		})!;
+
+		const layers = this.normalBufferLayers;
+		layers.mask = (context.renderPassOptions.layers ?? camera.layers).mask | this.occluderLayers.mask;
+
+		this.normalBufferRenderer.render(renderer, {
+			scene: context.scene,
+			camera,
+			target: normalTarget,
+			layers,
+			restoreGlobalState: false,
+		});
+
+		const occlusionTarget = renderTargetStore.getRenderTarget(
+			'ssao.occlusion',
+			Math.max(1, Math.floor(width * this.resolutionScale)),
+			Math.max(1, Math.floor(height * this.resolutionScale)),
+			{
+				type: HalfFloatType,
+				magFilter: LinearFilter,
+				minFilter: LinearFilter,
+			}
+		)!;
+
+		const blueNoise = BlueNoise.getTexture();
+		const noiseSize = blueNoise.image.width;
+		const occlusionUniforms = this.occlusionMaterial.uniforms;
+		occlusionUniforms.depthTexture.value = this.depthTexture;
+		occlusionUniforms.normalBuffer.value = normalTarget.texture;
+		occlusionUniforms.blueNoise.value = blueNoise;
+		occlusionUniforms.noiseScale.value.set(occlusionTarget.width / noiseSize, occlusionTarget.height / noiseSize);
+		// golden ratio offsets decorrelate frames for temporal effects
+		occlusionUniforms.noiseOffset.value.set((context.frame * 0.618034) % 1, (context.frame * 0.754878) % 1);
+		occlusionUniforms.cameraProjectionMatrix.value.copy(camera.projectionMatrix);
+		occlusionUniforms.cameraProjectionMatrixInverse.value.copy(camera.projectionMatrixInverse);
+
+		Rendering.shaderMaterialPass(renderer, {
+			shader: this.occlusionMaterial,
+			target: occlusionTarget,
+			clearColor: false,
+			clearDepth: false,
+			restoreGlobalState: false,
+		});
+
+		const result = renderTargetStore.getRenderTarget('ssao.result', width, height, {
+			type: HalfFloatType,
+			magFilter: LinearFilter,
+			minFilter: LinearFilter,
+		})!;
+
+		const upsampleUniforms = this.upsampleMaterial.uniforms;
+		upsampleUniforms.occlusion.value = occlusionTarget.texture;
+		upsampleUniforms.depthTexture.value = this.depthTexture;
+		upsampleUniforms.occlusionTexelSize.value.set(1 / occlusionTarget.width, 1 / occlusionTarget.height);
+		upsampleUniforms.cameraProjectionMatrixInverse.value.copy(camera.projectionMatrixInverse);
+
+		Rendering.shaderMaterialPass(renderer, {
+			shader: this.upsampleMaterial,
+			target: result,
+			clearColor: false,
+			clearDepth: false,
+			restoreGlobalState: false,
+		});
+
+		this.result = result;
+	}
+
+	render(context: PostProcessingContext, source: Texture, target: WebGLRenderTarget | null) {
+		if (this.mode === 'composite' && this.result != null) {
+			this.compositeMaterial.uniforms.source.value = source;
+			this.compositeMaterial.uniforms.occlusion.value = this.result.texture;
+			effectPass(context, this.compositeMaterial, target);
+		} else {
+			Rendering.blit(context.renderer, {
+				source,
+				target,
+				viewport: target === context.outputTarget ? context.outputViewport : undefined,
+				restoreGlobalState: false,
+			});
+		}
+	}
+
+	addDevUI(folder: GUI) {
+		folder.add(this, 'mode', ['composite', 'material']);
+		folder.add(this, 'samples', 1, 64, 1);
+		folder.add(this, 'radius', 0, 4, 0.001);
+		folder.add(this, 'bias', 0, 0.2, 0.0001);
+		folder.add(this, 'intensity', 0, 2, 0.001);
+		folder.add(this, 'power', 0.1, 4, 0.001);
+		folder.add(this, 'depthSharpness', 0, 64, 0.01);
+		folder.add(this, 'resolutionScale', 0.25, 1, 0.25);
+	}
+
+	dispose() {
+		this.occlusionMaterial.dispose();
+		this.upsampleMaterial.dispose();
+		this.compositeMaterial.dispose();
+		this.normalBufferRenderer.dispose();
+		this.depthTexture.dispose();
+		this.result = null;
+	}
+
+}
@@ -0,0 +1,404 @@
+import { CubeUVReflectionMapping, Euler, HalfFloatType, LinearFilter, LinearMipmapLinearFilter, Matrix3, Matrix4, Scene, Texture, Uniform, WebGLRenderTarget } from "three";
+import { GUI } from "../../lib/lilgui.module.js";
+import { ShaderMaterial } from "../../materials/ShaderMaterial.js";
+import { generateBlurredMipmaps } from "../BlurredMipmapChain.js";
+import { normalBufferGLSL } from "../NormalBufferRenderer.js";
+import { Rendering } from "../Rendering.js";
+import { effectPass, effectVertexShader, PostProcessingContext, PostProcessingEffect } from "./PostProcessingEffect.js";
+
+const _euler = new Euler();
+const _matrix4 = new Matrix4();
+
+const viewPositionGLSL = /*glsl*/`
+	vec3 viewPosition(vec2 uv, float depth) {
+		vec4 p = cameraProjectionMatrixInverse * vec4(vec3(uv, depth) * 2.0 - 1.0, 1.0);
+		return p.xyz / p.w;
+	}
+`;
+
+/**
+ * Screen-space reflections for objects on the `Layer.ScreenSpaceReflector` layer
+ *
+ * Rays are marched against the scene depth. Hits sample a blurred mipmap chain of the scene with the level chosen by roughness, misses fall back to `scene.environment` (PMREM)
+ *
+ * Reflections are added over the shaded scene, so reflector materials should use a low `envMapIntensity` to avoid reflecting the environment twice
+ *
+ * Usually the first effect: `postProcessingStack.addEffect(new SSREffect(), 0)`
+ */
+export class SSREffect implements PostProcessingEffect {
+
+	readonly name = 'Screen Space Reflections';
+	enabled = true;
+
+	/** Trace resolution relative to the scene */
+	resolutionScale = 0.5;
+	/** Blur radius of each mip in fractions of image height, see `generateBlurredMipmaps()` */
+	blurKernel_heightFraction = 1 / 32;
+
+	readonly traceMaterial = new ShaderMaterial<{
+		depthTexture: Uniform<Texture | null>,
+		normalBuffer: Uniform<Texture | null>,
+		cameraProjectionMatrix: Uniform<Matrix4>,
+		cameraProjectionMatrixInverse: Uniform<Matrix4>,
+		isPerspective: Uniform<boolean>,
+		/** Maximum ray length in view space units */
+		maxDistance: Uniform<number>,
+		/** Depth range behind a surface that counts as a hit, in view space units */
+		thickness: Uniform<number>,
+		jitter: Uniform<number>,
+	}, {
+		MAX_STEPS: string,
+	}>({
+		uniforms: {
+			depthTexture: new Uniform(null),
+			normalBuffer: new Uniform(null),
+			cameraProjectionMatrix: new Uniform(new Matrix4()),
+			cameraProjectionMatrixInverse: new Uniform(new Matrix4()),
+			isPerspective: new Uniform(true),
+			maxDistance: new Uniform(5),
+			thickness: new Uniform(0.1),
+			jitter: new Uniform(0),
+		},
+		defines: {
+			MAX_STEPS: '32',
+		},
+		vertexShader: effectVertexShader,
+		fragmentShader: /*glsl*/`
+			uniform sampler2D depthTexture;
+			uniform sampler2D normalBuffer;
+			uniform mat4 cameraProjectionMatrix;
+			uniform mat4 cameraProjectionMatrixInverse;
+			uniform bool isPerspective;
+			uniform float maxDistance;
+			uniform float thickness;
+			uniform float jitter;
+			varying vec2 vUv;
+
+			${normalBufferGLSL}
+			${viewPositionGLSL}
+
+			float interleavedGradientNoise(vec2 p) {
+				return fract(52.9829189 * fract(dot(p, vec2(0.06711056, 0.00583715))));
+			}
+
+			// positive when the ray is behind the scene surface
+			float rayDepthDifference(vec3 p, out vec2 uv) {
+				vec4 clip = cameraProjectionMatrix * vec4(p, 1.0);
+				uv = clip.xy / clip.w * 0.5 + 0.5;
+				float sceneZ = viewPosition(uv, texture2D(depthTexture, uv).r).z;
+				return sceneZ - p.z;
+			}
+
+			void main() {
+				vec4 normalTexel = texture2D(normalBuffer, vUv);
+				float depth = texture2D(depthTexture, vUv).r;
+				if (!normalBufferIsReflector(normalTexel) || depth >= 1.0) {
+					gl_FragColor = vec4(0.0);
+					return;
+				}
+
+				vec3 p = viewPosition(vUv, depth);
+				vec3 n = normalBufferViewNormal(normalTexel);
+				vec3 v = isPerspective ? normalize(p) : vec3(0.0, 0.0, -1.0);
+				vec3 r = reflect(v, n);
+
+				float stepSize = maxDistance / float(MAX_STEPS);
+				float t = stepSize * interleavedGradientNoise(gl_FragCoord.xy + jitter);
+				float previousT = 0.0;
+
+				vec2 hitUv = vec2(0.0);
+				bool hit = false;
+
+				for (int i = 0; i < MAX_STEPS; i++) {
+					t += stepSize;
+					vec3 q = p + r * t;
+
+					// don't march behind the camera
+					if ((cameraProjectionMatrix * vec4(q, 1.0)).w <= 0.0) break;
+
+					vec2 uv;
+					float dz = rayDepthDifference(q, uv);
+					if (uv.x < 0.0 || uv.x > 1.0 || uv.y < 0.0 || uv.y > 1.0) break;
+
+					if (dz > 0.0 && dz < thickness) {
+						// binary search between the last two samples
+						float a = previousT;
+						float b = t;
+						for (int j = 0; j < 5; j++) {
+							float mid = (a + b) * 0.5;
+							if (rayDepthDifference(p + r * mid, uv) > 0.0) {
+								b = mid;
+							} else {
+								a = mid;
+							}
+						}
+						rayDepthDifference(p + r * b, hitUv);
+						t = b;
+						hit = true;
+						break;
+					}
+
+					previousT = t;
+				}
+
+				if (!hit) {
+					gl_FragColor = vec4(0.0);
+					return;
+				}
+
+				// fade out near the screen edges and the end of the ray where hits are unreliable
+				vec2 edge = smoothstep(0.0, 0.1, hitUv) * smoothstep(0.0, 0.1, 1.0 - hitUv);
+				float confidence = edge.x * edge.y * (1.0 - smoothstep(0.5, 1.0, t / maxDistance));
+
+				gl_FragColor = vec4(hitUv, confidence, 1.0);
+			}
+		`,
+		depthTest: false,
+		depthWrite: false,
+	});
+
+	readonly compositeMaterial = new ShaderMaterial<{
+		source: Uniform<Texture | null>,
+		colorMipmaps: Uniform<Texture | null>,
+		traceBuffer: Uniform<Texture | null>,
+		normalBuffer: Uniform<Texture | null>,
+		depthTexture: Uniform<Texture | null>,
+		cameraProjectionMatrixInverse: Uniform<Matrix4>,
+		cameraMatrixWorld: Uniform<Matrix4>,
+		isPerspective: Uniform<boolean>,
+		maxLod: Uniform<number>,
+		intensity: Uniform<number>,
+		envMap: Uniform<Texture | null>,
+		envMapIntensity: Uniform<number>,
+		envMapRotation: Uniform<Matrix3>,
+	}, {
+		ENVMAP_TYPE_CUBE_UV?: string,
+		CUBEUV_TEXEL_WIDTH?: string,
+		CUBEUV_TEXEL_HEIGHT?: string,
+		CUBEUV_MAX_MIP?: string,
+	}>({
+		uniforms: {
+			source: new Uniform(null),
+			colorMipmaps: new Uniform(null),
+			traceBuffer: new Uniform(null),
+			normalBuffer: new Uniform(null),
+			depthTexture: new Uniform(null),
+			cameraProjectionMatrixInverse: new Uniform(new Matrix4()),
+			cameraMatrixWorld: new Uniform(new Matrix4()),
+			isPerspective: new Uniform(true),
+			maxLod: new Uniform(0),
+			intensity: new Uniform(1),
+			envMap: new Uniform(null),
+			envMapIntensity: new Uniform(1),
+			envMapRotation: new Uniform(new Matrix3()),
+		},
+		defines: {},
+		vertexShader: effectVertexShader,
+		fragmentShader: /*glsl*/`
+			uniform sampler2D source;
+			uniform sampler2D colorMipmaps;
+			uniform sampler2D traceBuffer;
+			uniform sampler2D normalBuffer;
+			uniform sampler2D depthTexture;
+			uniform mat4 cameraProjectionMatrixInverse;
+			uniform mat4 cameraMatrixWorld;
+			uniform bool isPerspective;
+			uniform float maxLod;
+			uniform float intensity;
+			varying vec2 vUv;
+
+			#include <common>
+
+			#ifdef ENVMAP_TYPE_CUBE_UV
+			uniform sampler2D envMap;
+			uniform float envMapIntensity;
+			uniform mat3 envMapRotation;
+			#include <cube_uv_reflection_fragment>
+			#endif
+
+			${normalBufferGLSL}
+			${viewPositionGLSL}
+
+			void main() {
+				vec4 color = texture2D(source, vUv);
+				vec4 normalTexel = texture2D(normalBuffer, vUv);
+				float depth = texture2D(depthTexture, vUv).r;
+				if (!normalBufferIsReflector(normalTexel) || depth >= 1.0) {
+					gl_FragColor = color;
+					return;
+				}
+
+				float roughness = normalBufferRoughness(normalTexel);
+				float metalness = normalBufferMetalness(normalTexel);
+				vec3 p = viewPosition(vUv, depth);
+				vec3 n = normalBufferViewNormal(normalTexel);
+				vec3 v = isPerspective ? normalize(p) : vec3(0.0, 0.0, -1.0);
+				vec3 r = reflect(v, n);
+
+				vec3 reflection = vec3(0.0);
+
+				#ifdef ENVMAP_TYPE_CUBE_UV
+				vec3 worldR = normalize((cameraMatrixWorld * vec4(r, 0.0)).xyz);
+				reflection = textureCubeUV(envMap, envMapRotation * worldR, roughness).rgb * envMapIntensity;
+				#endif
+
+				vec4 trace = texture2D(traceBuffer, vUv);
+				if (trace.b > 0.0) {
+					vec3 traced = textureLod(colorMipmaps, trace.xy, roughness * maxLod).rgb;
+					reflection = mix(reflection, traced, trace.b);
+				}
+
+				float f0 = mix(0.04, 1.0, metalness);
+				float fresnel = f0 + (1.0 - f0) * pow(1.0 - saturate(dot(n, -v)), 5.0);
+
+				color.rgb += reflection * fresnel * intensity * (1.0 - roughness);
+
+				gl_FragColor = color;
+			}
+		`,
+		depthTest: false,
+		depthWrite: false,
+	});
+
+	get intensity() { return this.compositeMaterial.uniforms.intensity.value; }
+	set intensity(v: number) { this.compositeMaterial.uniforms.intensity.value = v; }
+
+	get maxDistance() { return this.traceMaterial.uniforms.maxDistance.value; }
+	set maxDistance(v: number) { this.traceMaterial.uniforms.maxDistance.value = v; }
+
+	get thickness() { return this.traceMaterial.uniforms.thickness.value; }
+	set thickness(v: number) { this.traceMaterial.uniforms.thickness.value = v; }
+
+	get maxSteps() { return parseInt(this.traceMaterial.defines.MAX_STEPS); }
+	set maxSteps(v: number) {
+		const value = Math.max(1, Math.floor(v)).toFixed(0);
+		if (value !== this.traceMaterial.defines.MAX_STEPS) {
+			this.traceMaterial.defines.MAX_STEPS = value;
+			this.traceMaterial.needsUpdate = true;
+		}
+	}
+
+	render(context: PostProcessingContext, source: Texture, target: WebGLRenderTarget | null) {
+		const { renderer, camera, renderTargetStore } = context;
+		const normalBuffer = context.getNormalBuffer();
+		const isPerspective = camera.projectionMatrix.elements[15] === 0;
+
+		// trace
+		const traceTarget = renderTargetStore.getRenderTarget(
+			'ssr.trace',
+			Math.max(1, Math.floor(context.width * this.resolutionScale)),
+			Math.max(1, Math.floor(context.height * this.resolutionScale)),
+			{
+				type: HalfFloatType,
+				magFilter: LinearFilter,
+				minFilter: LinearFilter,
+			}
+		)!;
+
+		const traceUniforms = this.traceMaterial.uniforms;
+		traceUniforms.depthTexture.value = context.depthTexture;
+		traceUniforms.normalBuffer.value = normalBuffer;
+		traceUniforms.cameraProjectionMatrix.value.copy(camera.projectionMatrix);
+		traceUniforms.cameraProjectionMatrixInverse.value.copy(camera.projectionMatrixInverse);
+		traceUniforms.isPerspective.value = isPerspective;
+		traceUniforms.jitter.value = context.frame % 64;
+
+		Rendering.shaderMaterialPass(renderer, {
+			shader: this.traceMaterial,
+			target: traceTarget,
+			clearColor: false,
+			clearDepth: false,
+			restoreGlobalState: false,
+		});
+
+		// blurred scene color for rough reflections
+		const mipmapTarget = renderTargetStore.getRenderTarget('ssr.color', context.width, context.height, {
+			type: source.type,
+			magFilter: LinearFilter,
+			minFilter: LinearMipmapLinearFilter,
+			allocateMipmaps: true,
+		})!;
+
+		Rendering.blit(renderer, {
+			source,
+			target: mipmapTarget,
+			restoreGlobalState: false,
+		});
+
+		// only sample levels the blur actually wrote
+		const lastLevel = generateBlurredMipmaps(renderer, {
+			target: mipmapTarget,
+			blurKernel_heightFraction: this.blurKernel_heightFraction,
+			restoreGlobalState: false,
+		});
+
+		// composite
+		const compositeUniforms = this.compositeMaterial.uniforms;
+		compositeUniforms.source.value = source;
+		compositeUniforms.colorMipmaps.value = mipmapTarget.texture;
+		compositeUniforms.traceBuffer.value = traceTarget.texture;
+		compositeUniforms.normalBuffer.value = normalBuffer;
+		compositeUniforms.depthTexture.value = context.depthTexture;
+		compositeUniforms.cameraProjectionMatrixInverse.value.copy(camera.projectionMatrixInverse);
+		compositeUniforms.cameraMatrixWorld.value.copy(camera.matrixWorld);
+		compositeUniforms.isPerspective.value = isPerspective;
+		compositeUniforms.maxLod.value = Math.max(0, Math.min(lastLevel, (mipmapTarget.texture.mipmaps?.length ?? 1) - 1));
+
+		this.updateEnvironment(context.scene instanceof Scene ? context.scene : null);
+
+		effectPass(context, this.compositeMaterial, target);
+	}
+
+	protected updateEnvironment(scene: Scene | null) {
+		const uniforms = this.compositeMaterial.uniforms;
+		const defines = this.compositeMaterial.defines;
+		const environment = scene?.environment?.mapping === CubeUVReflectionMapping ? scene.environment : null;
+		const imageHeight: number | null = (environment?.image as { height?: number } | undefined)?.height ?? null;
+
+		uniforms.envMap.value = environment;
+
+		if (environment != null && scene != null) {
+			uniforms.envMapIntensity.value = scene.environmentIntensity;
+			// matches three.js WebGLMaterials for CubeUV environments
+			_euler.copy(scene.environmentRotation);
+			_euler.x *= -1;
+			_euler.y *= -1;
+			_euler.z *= -1;
+			uniforms.envMapRotation.value.setFromMatrix4(_matrix4.makeRotationFromEuler(_euler));
+		}
+
+		// CubeUV defines depend on the environment size, matches three.js WebGLProgram generateCubeUVSize()
+		const maxMip = imageHeight != null ? Math.log2(imageHeight) - 2 : null;
+		const currentMaxMip = defines.CUBEUV_MAX_MIP != null ? parseFloat(defines.CUBEUV_MAX_MIP) : null;
+		if (maxMip === currentMaxMip) {
+			return;
+		}
+		if (imageHeight != null && maxMip != null) {
+			defines.ENVMAP_TYPE_CUBE_UV = '';
+			defines.CUBEUV_TEXEL_WIDTH = (1.0 / (3 * Math.max(Math.pow(2, maxMip), 7 * 16))).toString();
+			defines.CUBEUV_TEXEL_HEIGHT = (1.0 / imageHeight).toString();
+			defines.CUBEUV_MAX_MIP = maxMip.toFixed(1);
+		} else {
+			delete defines.ENVMAP_TYPE_CUBE_UV;
+			delete defines.CUBEUV_TEXEL_WIDTH;
+			delete defines.CUBEUV_TEXEL_HEIGHT;
+			delete defines.CUBEUV_MAX_MIP;
+		}
+		this.compositeMaterial.needsUpdate = true;
+	}
+
+	addDevUI(folder: GUI) {
+		folder.add(this, 'intensity', 0, 2, 0.001);
+		folder.add(this, 'maxDistance', 0, 50, 0.01);
+		folder.add(this, 'thickness', 0, 1, 0.001);
+		folder.add(this, 'maxSteps', 1, 128, 1);
+		folder.add(this, 'resolutionScale', 0.25, 1, 0.25);
+		folder.add(this, 'blurKernel_heightFraction', 0, 0.25, 0.001);
+	}
+
+	dispose() {
+		this.traceMaterial.dispose();
+		this.compositeMaterial.dispose();
+	}
+
+}
@@ -0,0 +1,274 @@
+import { HalfFloatType, LinearFilter, Matrix4, Texture, Uniform, Vector2, WebGLRenderTarget } from "three";
+import { GUI } from "../../lib/lilgui.module.js";
+import { ShaderMaterial } from "../../materials/ShaderMaterial.js";
+import { DualRenderTarget } from "../DualRenderTarget.js";
+import { Rendering } from "../Rendering.js";
+import { effectVertexShader, PostProcessingContext, PostProcessingEffect } from "./PostProcessingEffect.js";
+
+/**
+ * Temporal anti-aliasing, the camera projection is jittered by a sub-pixel Halton offset each frame and accumulated into a history buffer
+ *
+ * History is reprojected with `velocityTexture` when set, otherwise with the camera motion only (correct for static scenes).
+ * Reprojected history is clamped to the min/max of the current 3x3 neighbourhood to reject stale samples
+ *
+ * Should be the first effect so it runs on the linear HDR scene
+ *
+ * @example
+ * ```typescript
+ * stack.addEffect(new TAAEffect(), 0);
+ * stack.fxaa.enabled = false;
+ * ```
+ */
+export class TAAEffect implements PostProcessingEffect {
+
+	readonly name = 'TAA';
+	enabled = true;
+
+	/** Length of the Halton jitter sequence */
+	jitterSamples = 16;
+	/** Jitter amplitude in pixels */
+	jitterScale = 1;
+
+	/**
+	 * Per-pixel screen motion `currentUv - previousUv` in `rg`, when `null` history is reprojected with camera motion only
+	 */
+	velocityTexture: Texture | null = null;
+	/** Reproject with the stack's motion vectors, see `PostProcessingContext.getMotionVectors()`. Takes precedence over `velocityTexture` */
+	useMotionVectors = false;
+
+	protected history: DualRenderTarget | null = null;
+	protected historyValid = false;
+
+	protected sampleIndex = 0;
+	protected jitter = new Vector2();
+	protected savedProjection = new Matrix4();
+	protected savedProjectionInverse = new Matrix4();
+	protected jitteredProjectionInverse = new Matrix4();
+	protected previousViewProjection = new Matrix4();
+
+	readonly material = new ShaderMaterial<{
+		source: Uniform<Texture | null>,
+		history: Uniform<Texture | null>,
+		depthTexture: Uniform<Texture | null>,
+		velocityTexture: Uniform<Texture | null>,
+		invResolution: Uniform<Vector2>,
+		cameraProjectionMatrixInverse: Uniform<Matrix4>,
+		cameraMatrixWorld: Uniform<Matrix4>,
+		previousViewProjection: Uniform<Matrix4>,
+		/** Weight of the history, higher is smoother but slower to respond */
+		feedback: Uniform<number>,
+		historyValid: Uniform<boolean>,
+	}>({
+		uniforms: {
+			source: new Uniform(null),
+			history: new Uniform(null),
+			depthTexture: new Uniform(null),
+			velocityTexture: new Uniform(null),
+			invResolution: new Uniform(new Vector2()),
+			cameraProjectionMatrixInverse: new Uniform(new Matrix4()),
+			cameraMatrixWorld: new Uniform(new Matrix4()),
+			previousViewProjection: new Uniform(new Matrix4()),
+			feedback: new Uniform(0.9),
+			historyValid: new Uniform(false),
+		},
+		vertexShader: effectVertexShader,
+		fragmentShader: /*glsl*/`
+			uniform sampler2D source;
+			uniform sampler2D history;
+			uniform sampler2D depthTexture;
+			uniform sampler2D velocityTexture;
+			uniform vec2 invResolution;
+			uniform mat4 cameraProjectionMatrixInverse;
+			uniform mat4 cameraMatrixWorld;
+			uniform mat4 previousViewProjection;
+			uniform float feedback;
+			uniform bool historyValid;
+			varying vec2 vUv;
+
+			vec2 previousUv(vec2 uv) {
+				#ifdef USE_VELOCITY
+				return uv - texture2D(velocityTexture, uv).rg;
+				#else
+				float depth = texture2D(depthTexture, uv).r;
+				vec4 view = cameraProjectionMatrixInverse * vec4(uv * 2.0 - 1.0, depth * 2.0 - 1.0, 1.0);
+				vec4 world = cameraMatrixWorld * vec4(view.xyz / view.w, 1.0);
+				vec4 clip = previousViewProjection * world;
+				return clip.xy / clip.w * 0.5 + 0.5;
+				#endif
+			}
+
+			void main() {
+				vec4 color = texture2D(source, vUv);
+
+				// neighbourhood min/max
+				vec4 minColor = color;
+				vec4 maxColor = color;
+				for (int x = -1; x <= 1; x++) {
+					for (int y = -1; y <= 1; y++) {
+						vec4 s = texture2D(source, vUv + vec2(x, y) * invResolution);
+						minColor = min(minColor, s);
+						maxColor = max(maxColor, s);
+					}
+				}
+
+				vec2 uv = previousUv(vUv);
+				bool offscreen = any(lessThan(uv, vec2(0.0))) || any(greaterThan(uv, vec2(1.0)));
+
+				if (!historyValid || offscreen) {
+					gl_FragColor = color;
+					return;
+				}
+
+				vec4 previous = clamp(texture2D(history, uv), minColor, maxColor);
+				gl_FragColor = mix(color, previous, feedback);
+			}
+		`,
+		depthTest: false,
+		depthWrite: false,
+	});
+
+	get feedback() { return this.material.uniforms.feedback.value; }
+	set feedback(v: number) { this.material.uniforms.feedback.value = v; }
+
+	/**
+	 * Frames to render after the image changes for the history to settle: a full jitter cycle, and until the first frame contributes less than 1%
+	 */
+	get convergenceFrames() {
+		const feedback = this.feedback;
+		const decayFrames = feedback > 0 && feedback < 1 ? Math.ceil(Math.log(0.01) / Math.log(feedback)) : 1;
+		return Math.max(this.jitterSamples, decayFrames);
+	}
+
+	/**
+	 * Discard the history, for example after a camera cut
+	 */
+	reset() {
+		this.historyValid = false;
+		this.sampleIndex = 0;
+	}
+
+	restoreContext() {
+		this.history?.reallocate();
+		this.reset();
+	}
+
+	beforeSceneRender(context: PostProcessingContext) {
+		const { camera } = context;
+		this.sampleIndex = (this.sampleIndex + 1) % Math.max(1, this.jitterSamples);
+		this.jitter.set(
+			(halton(this.sampleIndex + 1, 2) - 0.5) * this.jitterScale,
+			(halton(this.sampleIndex + 1, 3) - 0.5) * this.jitterScale,
+		);
+
+		this.savedProjection.copy(camera.projectionMatrix);
+		this.savedProjectionInverse.copy(camera.projectionMatrixInverse);
+
+		// offset in NDC, works for perspective and orthographic projections
+		_jitterMatrix.makeTranslation(
+			this.jitter.x * 2 / context.width,
+			this.jitter.y * 2 / context.height,
+			0,
+		);
+		camera.projectionMatrix.premultiply(_jitterMatrix);
+		camera.projectionMatrixInverse.copy(camera.projectionMatrix).invert();
+		this.jitteredProjectionInverse.copy(camera.projectionMatrixInverse);
+	}
+
+	afterSceneRender(context: PostProcessingContext) {
+		const { camera } = context;
+		camera.projectionMatrix.copy(this.savedProjection);
+		camera.projectionMatrixInverse.copy(this.savedProjectionInverse);
+	}
+
+	render(context: PostProcessingContext, source: Texture, target: WebGLRenderTarget | null) {
+		const { renderer, camera, width, height } = context;
+
+		if (this.history == null) {
+			this.history = new DualRenderTarget(renderer, width, height, {
+				type: HalfFloatType,
+				magFilter: LinearFilter,
+				minFilter: LinearFilter,
+				depthBuffer: false,
+			});
+			this.historyValid = false;
+		} else if (this.history.width !== width || this.history.height !== height) {
+			this.history.resize(width, height);
+			this.historyValid = false;
+		}
+
+		const velocityTexture = this.useMotionVectors ? context.getMotionVectors() : this.velocityTexture;
+		const useVelocity = velocityTexture != null;
+		if (useVelocity !== (this.material.defines.USE_VELOCITY != null)) {
+			if (useVelocity) {
+				this.material.defines.USE_VELOCITY = '';
+			} else {
+				delete this.material.defines.USE_VELOCITY;
+			}
+			this.material.needsUpdate = true;
+		}
+
+		const uniforms = this.material.uniforms;
+		uniforms.source.value = source;
+		uniforms.history.value = this.history.getTexture();
+		uniforms.depthTexture.value = context.depthTexture;
+		uniforms.velocityTexture.value = velocityTexture;
+		uniforms.invResolution.value.set(1 / width, 1 / height);
+		uniforms.cameraProjectionMatrixInverse.value.copy(this.jitteredProjectionInverse);
+		uniforms.cameraMatrixWorld.value.copy(camera.matrixWorld);
+		uniforms.previousViewProjection.value.copy(this.previousViewProjection);
+		uniforms.historyValid.value = this.historyValid;
+
+		Rendering.shaderMaterialPass(renderer, {
+			shader: this.material,
+			target: this.history.getWriteRenderTarget(),
+			clearColor: false,
+			clearDepth: false,
+			restoreGlobalState: false,
+		});
+		this.history.swap();
+		this.historyValid = true;
+
+		// unjittered view projection for next frame's reprojection
+		this.previousViewProjection.multiplyMatrices(camera.projectionMatrix, camera.matrixWorldInverse);
+
+		Rendering.blit(renderer, {
+			source: this.history.getTexture(),
+			target,
+			viewport: target === context.outputTarget ? context.outputViewport : undefined,
+			restoreGlobalState: false,
+		});
+	}
+
+	addDevUI(folder: GUI) {
+		folder.add(this, 'feedback', 0, 0.99, 0.001);
+		folder.add(this, 'jitterScale', 0, 2, 0.001);
+		folder.add(this, 'jitterSamples', 1, 64, 1);
+		folder.add(this, 'useMotionVectors');
+		folder.add(this, 'reset');
+	}
+
+	dispose() {
+		this.material.dispose();
+		this.history?.a.dispose();
+		this.history?.b.dispose();
+		this.history = null;
+		this.historyValid = false;
+	}
+
+}
+
+const _jitterMatrix = new Matrix4();
+
+/**
+ * Halton low-discrepancy sequence, `index` starts from 1
+ */
+export function halton(index: number, base: number) {
+	let result = 0;
+	let f = 1;
+	while (index > 0) {
+		f /= base;
+		result += f * (index % base);
+		index = Math.floor(index / base);
+	}
+	return result;
+}
@@ -0,0 +1,81 @@
+import { Texture, Uniform, Vector4, WebGLRenderTarget } from "three";
+import { GUI } from "../../lib/lilgui.module.js";
+import { ShaderMaterial } from "../../materials/ShaderMaterial.js";
+import { effectPass, effectVertexShader, PostProcessingContext, PostProcessingEffect } from "./PostProcessingEffect.js";
+
+/**
+ * Darkens the edges of the image
+ */
+export class VignetteEffect implements PostProcessingEffect {
+
+	readonly name = 'Vignette';
+	enabled = true;
+
+	readonly material = new ShaderMaterial<{
+		source: Uniform<Texture | null>,
+		/** Darkening at the corners, 0 to 1 */
+		intensity: Uniform<number>,
+		/** Distance from the center where darkening starts, 1 is the corner */
+		radius: Uniform<number>,
+		/** Width of the transition, as a fraction of the distance to the corner */
+		smoothness: Uniform<number>,
+		screenUvTransform: Uniform<Vector4>,
+	}>({
+		uniforms: {
+			source: new Uniform(null),
+			intensity: new Uniform(0.3),
+			radius: new Uniform(0.6),
+			smoothness: new Uniform(0.5),
+			screenUvTransform: new Uniform(new Vector4(1, 1, 0, 0)),
+		},
+		vertexShader: effectVertexShader,
+		fragmentShader: /*glsl*/`
+			uniform sampler2D source;
+			uniform float intensity;
+			uniform float radius;
+			uniform float smoothness;
+			uniform vec4 screenUvTransform;
+			varying vec2 vUv;
+
+			void main() {
+				// 1 at the corners
+				vec2 screenUv = vUv * screenUvTransform.xy + screenUvTransform.zw;
+				float d = length(screenUv - 0.5) * sqrt(2.0);
+				float vignette = smoothstep(radius, radius + smoothness, d);
+
+				vec4 color = texture2D(source, vUv);
+				color.rgb *= 1.0 - vignette * intensity;
+
+				gl_FragColor = color;
+			}
+		`,
+		depthTest: false,
+		depthWrite: false,
+	});
+
+	get intensity() { return this.material.uniforms.intensity.value; }
+	set intensity(v: number) { this.material.uniforms.intensity.value = v; }
+
+	get radius() { return this.material.uniforms.radius.value; }
+	set radius(v: number) { this.material.uniforms.radius.value = v; }
+
+	get smoothness() { return this.material.uniforms.smoothness.value; }
+	set smoothness(v: number) { this.material.uniforms.smoothness.value = v; }
+
+	render(context: PostProcessingContext, source: Texture, target: WebGLRenderTarget | null) {
+		this.material.uniforms.source.value = source;
+		this.material.uniforms.screenUvTransform.value.copy(context.screenUvTransform);
+		effectPass(context, this.material, target);
+	}
+
+	addDevUI(folder: GUI) {
+		folder.add(this, 'intensity', 0, 1, 0.001);
+		folder.add(this, 'radius', 0, 1, 0.001);
+		folder.add(this, 'smoothness', 0, 1, 0.001);
+	}
+
+	dispose() {
+		this.material.dispose();
+	}
+
+}
@@ -0,0 +1,164 @@
+/**
+ * Tests for RenderGraph compilation (ordering, culling and aliasing)
+ * Run with: npx tsx rendering/tests/RenderGraph.test.ts
+ */
+
+import { HalfFloatType, LinearFilter, UnsignedByteType } from 'three';
+import { RenderGraph, RenderGraphPass } from '../RenderGraph.js';
+import { RenderTargetStoreOptions } from '../RenderTargetStore.js';
+
+const hdr: RenderTargetStoreOptions = { type: HalfFloatType, magFilter: LinearFilter };
+const ldr: RenderTargetStoreOptions = { type: UnsignedByteType, magFilter: LinearFilter };
+
+function pass(name: string, inputs: string[], outputs: string[], sideEffects = false): RenderGraphPass {
+    return { name, inputs, outputs, sideEffects, execute: () => {} };
+}
+
+function names(passes: RenderGraphPass[]) {
+    return passes.map(p => p.name).join(',');
+}
+
+function assertEqual<T>(actual: T, expected: T, message: string) {
+    if (actual !== expected) {
+        throw new Error(`${message}: expected ${expected}, got ${actual}`);
+    }
+}
+
+function assertThrows(fn: () => void, message: string) {
+    try {
+        fn();
+    } catch (e) {
+        return;
+    }
+    throw new Error(`${message}: expected an error`);
+}
+
+// Test 1: passes declared out of order are sorted by dependency
+function testOrdering() {
+    console.log('Test 1: passes are ordered by their dependencies');
+
+    const graph = new RenderGraph();
+    graph.addResource('scene', { options: hdr });
+    graph.addResource('blurred', { scale: 0.5, options: hdr });
+    graph.addPass(pass('composite', ['scene', 'blurred'], [RenderGraph.output]));
+    graph.addPass(pass('blur', ['scene'], ['blurred']));
+    graph.addPass(pass('scene', [], ['scene']));
+
+    assertEqual(names(graph.compile().passes), 'scene,blur,composite', 'Execution order');
+
+    console.log('  ✓ Passed\n');
+}
+
+// Test 2: passes whose outputs are never read are culled unless they have side effects
+function testCulling() {
+    console.log('Test 2: unused passes are culled');
+
+    const graph = new RenderGraph();
+    graph.addResource('scene', { options: hdr });
+    graph.addResource('unused', { options: hdr });
+    graph.addResource('readback', { options: ldr });
+    graph.addPass(pass('scene', [], ['scene']));
+    graph.addPass(pass('debug', ['scene'], ['unused']));
+    graph.addPass(pass('picking', ['scene'], ['readback'], true));
+    graph.addPass(pass('output', ['scene'], [RenderGraph.output]));
+
+    const compiled = graph.compile();
+    assertEqual(names(compiled.passes), 'scene,picking,output', 'Live passes');
+    assertEqual(names(compiled.culledPasses), 'debug', 'Culled passes');
+
+    console.log('  ✓ Passed\n');
+}
+
+// Test 3: transients with matching descriptions and disjoint lifetimes share a target
+function testAliasing() {
+    console.log('Test 3: transient targets are aliased');
+
+    const graph = new RenderGraph();
+    graph.addResource('a', { options: hdr });
+    graph.addResource('b', { options: hdr });
+    graph.addResource('c', { options: hdr });
+    graph.addResource('half', { scale: 0.5, options: hdr });
+    graph.addPass(pass('p0', [], ['a']));
+    graph.addPass(pass('p1', ['a'], ['b']));
+    graph.addPass(pass('p2', ['b'], ['c']));
+    graph.addPass(pass('p3', ['c'], ['half']));
+    graph.addPass(pass('p4', ['half'], [RenderGraph.output]));
+
+    const compiled = graph.compile();
+    // a is released after p1, so c can reuse its target, but b is still being read when c is written
+    assertEqual(compiled.slots.get('c'), compiled.slots.get('a'), 'c aliases a');
+    if (compiled.slots.get('b') === compiled.slots.get('a')) {
+        throw new Error('b must not alias a, both are live during p1');
+    }
+    if (compiled.slots.get('half') === compiled.slots.get('a') || compiled.slots.get('half') === compiled.slots.get('b')) {
+        throw new Error('half must not alias a full resolution target');
+    }
+    assertEqual(compiled.slotCount, 3, 'Physical target count');
+
+    // options outside the 2D color description (dimension, layers, attachments) also prevent aliasing
+    const layered = new RenderGraph();
+    layered.addResource('a', { options: hdr });
+    layered.addResource('b', { options: hdr });
+    layered.addResource('mrt', { options: { ...hdr, count: 2 } });
+    layered.addResource('array', { options: { ...hdr, dimension: 'array', depth: 4 } });
+    layered.addPass(pass('p0', [], ['a']));
+    layered.addPass(pass('p1', ['a'], ['b']));
+    layered.addPass(pass('p2', ['b'], ['mrt']));
+    layered.addPass(pass('p3', ['mrt'], ['array']));
+    layered.addPass(pass('p4', ['array'], [RenderGraph.output]));
+    const layeredSlots = layered.compile().slots;
+    if (layeredSlots.get('mrt') === layeredSlots.get('a') || layeredSlots.get('array') === layeredSlots.get('b')) {
+        throw new Error('Targets with different attachments or dimensions must not alias');
+    }
+
+    console.log('  ✓ Passed\n');
+}
+
+// Test 4: invalid graphs are reported
+function testValidation() {
+    console.log('Test 4: invalid graphs throw');
+
+    const missingWriter = new RenderGraph();
+    missingWriter.addResource('a', { options: hdr });
+    missingWriter.addPass(pass('p', ['a'], [RenderGraph.output]));
+    assertThrows(() => missingWriter.compile(), 'Reading a resource nobody writes');
+
+    const doubleWriter = new RenderGraph();
+    doubleWriter.addResource('a', { options: hdr });
+    doubleWriter.addPass(pass('p0', [], ['a']));
+    doubleWriter.addPass(pass('p1', [], ['a']));
+    assertThrows(() => doubleWriter.compile(), 'Resource with two writers');
+
+    const cycle = new RenderGraph();
+    cycle.addResource('a', { options: hdr });
+    cycle.addResource('b', { options: hdr });
+    cycle.addPass(pass('p0', ['b'], ['a']));
+    cycle.addPass(pass('p1', ['a'], ['b', RenderGraph.output]));
+    assertThrows(() => cycle.compile(), 'Cycle');
+
+    const imported = new RenderGraph();
+    imported.importTexture('video', () => { throw new Error('not called during compile'); });
+    imported.addPass(pass('p', ['video'], [RenderGraph.output]));
+    assertEqual(names(imported.compile().passes), 'p', 'Imported textures satisfy inputs');
+
+    console.log('  ✓ Passed\n');
+}
+
+// Run all tests
+function runTests() {
+    console.log('=== RenderGraph Tests ===\n');
+
+    try {
+        testOrdering();
+        testCulling();
+        testAliasing();
+        testValidation();
+
+        console.log('=== All tests passed! ===');
+    } catch (e) {
+        console.error('TEST FAILED:', e);
+        process.exit(1);
+    }
+}
+
+runTests();
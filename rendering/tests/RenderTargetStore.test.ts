@@ -0,0 +1,150 @@
+/**
+ * Tests for RenderTargetStore memory accounting and eviction
+ * Run with: npx tsx rendering/tests/RenderTargetStore.test.ts
+ */
+
+import { FloatType, HalfFloatType, LinearFilter, RedFormat, UnsignedByteType } from 'three';
+import RenderTargetStore, { RenderTargetStoreOptions } from '../RenderTargetStore.js';
+
+const ldr: RenderTargetStoreOptions = { type: UnsignedByteType, magFilter: LinearFilter };
+
+function assertEqual<T>(actual: T, expected: T, message: string) {
+    if (actual !== expected) {
+        throw new Error(`${message}: expected ${expected}, got ${actual}`);
+    }
+}
+
+function keys(store: RenderTargetStore) {
+    return store.getRenderTargetInfo().map(info => info.key).sort().join(',');
+}
+
+// Test 1: bytes account for size, format, type, samples and mipmaps
+function testByteAccounting() {
+    console.log('Test 1: target memory is estimated from its description');
+
+    const store = new RenderTargetStore();
+
+    const rgba8 = store.getRenderTarget('rgba8', 256, 128, ldr)!;
+    assertEqual(RenderTargetStore.getRenderTargetBytes(rgba8), 256 * 128 * 4, 'RGBA8');
+
+    const r32 = store.getRenderTarget('r32', 256, 128, { type: FloatType, format: RedFormat, magFilter: LinearFilter })!;
+    assertEqual(RenderTargetStore.getRenderTargetBytes(r32), 256 * 128 * 4, 'R32F');
+
+    // a 4x4 target has 16 + 4 + 1 pixels across its mip levels
+    const mipmapped = store.getRenderTarget('mipmapped', 4, 4, { type: HalfFloatType, magFilter: LinearFilter, allocateMipmaps: true })!;
+    assertEqual(RenderTargetStore.getRenderTargetBytes(mipmapped), (16 + 4 + 1) * 8, 'RGBA16F with mipmaps');
+
+    // resolve texture + 4 samples of color + 4 samples of depth
+    const msaa = store.getRenderTarget('msaa', 10, 10, { ...ldr, msaaSamples: 4, depthBuffer: true })!;
+    assertEqual(RenderTargetStore.getRenderTargetBytes(msaa), 100 * 4 + 100 * 4 * 4 + 100 * 4 * 4, 'MSAA with depth');
+
+    assertEqual(
+        store.getTotalBytes(),
+        256 * 128 * 4 * 2 + (16 + 4 + 1) * 8 + 100 * 4 * 9,
+        'Total bytes'
+    );
+    assertEqual(store.getRenderTargetInfo()[0].bytes, 256 * 128 * 4, 'Info is sorted largest first');
+
+    store.clearAndDisposeAll();
+
+    console.log('  ✓ Passed\n');
+}
+
+// Test 2: targets not requested for more than maxIdleFrames are disposed
+function testIdleEviction() {
+    console.log('Test 2: idle targets are evicted');
+
+    const store = new RenderTargetStore();
+    store.maxIdleFrames = 2;
+
+    const unused = store.getRenderTarget('unused', 8, 8, ldr)!;
+    let disposed = false;
+    unused.addEventListener('dispose', () => disposed = true);
+
+    for (let i = 0; i < 3; i++) {
+        store.getRenderTarget('used', 8, 8, ldr);
+        store.nextFrame();
+    }
+
+    assertEqual(keys(store), 'used', 'Live targets');
+    assertEqual(disposed, true, 'Evicted target is disposed');
+    assertEqual(store.getRenderTarget('unused'), undefined, 'Evicted target is removed');
+
+    console.log('  ✓ Passed\n');
+}
+
+// Test 3: over budget, least recently used targets go first but targets used this frame are kept
+function testMemoryBudget() {
+    console.log('Test 3: memory budget evicts least recently used targets');
+
+    const size = 8 * 8 * 4;
+    const store = new RenderTargetStore();
+    store.memoryBudget_bytes = size * 2;
+
+    store.getRenderTarget('a', 8, 8, ldr);
+    store.nextFrame();
+    store.getRenderTarget('b', 8, 8, ldr);
+    store.nextFrame();
+    store.getRenderTarget('c', 8, 8, ldr);
+
+    assertEqual(keys(store), 'b,c', 'Oldest target evicted on allocation');
+
+    store.nextFrame();
+    store.getRenderTarget('d', 8, 8, ldr);
+    store.getRenderTarget('e', 8, 8, ldr);
+    store.getRenderTarget('f', 8, 8, ldr);
+
+    assertEqual(keys(store), 'd,e,f', 'Targets used this frame exceed the budget');
+
+    store.nextFrame();
+    assertEqual(store.getRenderTargetInfo().length, 2, 'Budget enforced on the next frame');
+
+    console.log('  ✓ Passed\n');
+}
+
+// Test 4: reallocating after a context restore keeps every target's description
+function testReallocateAll() {
+    console.log('Test 4: reallocateAll replaces targets with matching ones');
+
+    const store = new RenderTargetStore();
+    const hdr = store.getRenderTarget('hdr', 64, 32, { type: HalfFloatType, magFilter: LinearFilter, msaaSamples: 4, depthBuffer: true })!;
+    const mipmapped = store.getRenderTarget('mipmapped', 16, 16, { ...ldr, allocateMipmaps: true })!;
+    const before = store.getRenderTargetInfo();
+
+    let disposed = 0;
+    hdr.addEventListener('dispose', () => disposed++);
+    mipmapped.addEventListener('dispose', () => disposed++);
+
+    store.reallocateAll();
+
+    assertEqual(disposed, 2, 'Old targets disposed');
+    const newHdr = store.getRenderTarget('hdr')!;
+    assertEqual(newHdr !== hdr, true, 'Target replaced');
+    assertEqual(newHdr.samples, 4, 'Samples kept');
+    assertEqual(newHdr.depthBuffer, true, 'Depth buffer kept');
+    assertEqual(newHdr.texture.type, HalfFloatType, 'Type kept');
+    assertEqual(JSON.stringify(store.getRenderTargetInfo()), JSON.stringify(before), 'Sizes and memory unchanged');
+
+    store.clearAndDisposeAll();
+
+    console.log('  ✓ Passed\n');
+}
+
+// Run all tests
+function runTests() {
+    console.log('=== RenderTargetStore Tests ===\n');
+
+    try {
+        testByteAccounting();
+        testIdleEviction();
+        testMemoryBudget();
+        testReallocateAll();
+
+        console.log('=== All tests passed! ===');
+    } catch (e) {
+        console.error('TEST FAILED:', e);
+        process.exit(1);
+    }
+}
+
+runTests();
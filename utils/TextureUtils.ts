@@ -1,14 +1,18 @@
 import {
     AlphaFormat,
     ByteType,
+    DataUtils,
     FloatType,
     HalfFloatType,
     IntType,
     PixelFormat,
     RedFormat,
+    RedIntegerFormat,
     RGBAFormat,
+    RGBAIntegerFormat,
     RGBFormat,
     RGFormat,
+    RGIntegerFormat,
     ShortType,
     TextureDataType,
     UnsignedByteType,
@@ -23,13 +27,16 @@ import {
 export function getChannelCount(format: PixelFormat): number {
     switch (format) {
         case RedFormat:
+        case RedIntegerFormat:
         case AlphaFormat:
             return 1;
         case RGFormat:
+        case RGIntegerFormat:
             return 2;
         case RGBFormat:
             return 3;
         case RGBAFormat:
+        case RGBAIntegerFormat:
             return 4;
         default:
             return 4; // RGBA as safe default
@@ -104,6 +111,22 @@ export function getTypedArrayConstructor<T extends TextureDataType>(
     }
 }
 
+/**
+ * Bytes per pixel of an uncompressed texture. Packed types such as UnsignedShort4444Type store all channels in a single element
+ */
+export function getBytesPerPixel(format: PixelFormat, type: TextureDataType): number {
+    const bytesPerElement = getTypedArrayConstructor(type).BYTES_PER_ELEMENT;
+    switch (type) {
+        case UnsignedShort4444Type:
+        case UnsignedShort5551Type:
+        case UnsignedInt248Type:
+        case UnsignedInt5999Type:
+            return bytesPerElement;
+        default:
+            return bytesPerElement * getChannelCount(format);
+    }
+}
+
 /**
  * Convert a normalized value [0,1] to the backing type's range
  */
@@ -219,4 +242,14 @@ export function textureArrayToNormalizedArray<T extends TextureDataType>(
     }
     
     return result;
-}
\ No newline at end of file
+}
+
+/**
+ * Decode the raw 16-bit values of a HalfFloatType texture to 32-bit floats
+ */
+export function halfFloatArrayToFloat32Array(halfFloats: Uint16Array, target = new Float32Array(halfFloats.length)): Float32Array {
+    for (let i = 0; i < halfFloats.length; i++) {
+        target[i] = DataUtils.fromHalfFloat(halfFloats[i]);
+    }
+    return target;
+}
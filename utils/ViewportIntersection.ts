@@ -0,0 +1,72 @@
+export type ViewportIntersectionInfo = {
+	/**
+	 * Fraction of the element that is visible in the viewport along the x-axis
+	 */
+	visibleFractionX: number,
+	/**
+	 * Fraction of the element that is visible in the viewport along the y-axis
+	 */
+	visibleFractionY: number,
+	/**
+	 * Fraction of the element that is visible in the viewport
+	 */
+	visibleFraction: number,
+	/**
+	 * like `visibleFractionX` but does not decrease as the element exits through the right of the viewport
+	 * - <= 0 when the element is not visible
+	 * - \>= 1 when the element is fully visible
+	 */
+	visibleFractionXProgressive: number,
+	/**
+	 * like `visibleFractionY` but does not decrease as the element exits through the top of the viewport
+	 * 
+	 * - <= 0 when the element is not visible
+	 * - \>= 1 when the element is fully visible
+	 */
+	visibleFractionYProgressive: number,
+	/**
+	 * like visibleFraction but only increases when the element is scrolled into view and does not decrease when the element is scrolled out of view
+	 */
+	visibleFractionProgressive: number,
+	/**
+	 * -1 if the center of the element is on the left half of the viewport
+	 */
+	signX: number,
+	/**
+	 * -1 if the center of the element is on the top half of the viewport
+	 */
+	signY: number,
+};
+
+/**
+ * Metrics about the intersection of an element's bounding rect with the viewport, shared by `useViewportIntersection` and `SharedCanvas`
+ */
+export function getViewportIntersection(rect: DOMRectReadOnly, viewportWidth: number, viewportHeight: number): ViewportIntersectionInfo {
+	const visibleWidthProgressive = viewportWidth - rect.left;
+	const visibleHeightProgressive = viewportHeight - rect.top;
+	const visibleWidth = Math.max(0, Math.min(rect.right, viewportWidth) - Math.max(rect.left, 0));
+	const visibleHeight = Math.max(0, Math.min(rect.bottom, viewportHeight) - Math.max(rect.top, 0));
+
+	const totalWidth = rect.width;
+	const totalHeight = rect.height;
+
+	const visibleFractionX = (visibleWidth / totalWidth);
+	const visibleFractionY = (visibleHeight / totalHeight);
+
+	const visibleFractionXProgressive = (visibleWidthProgressive / totalWidth);
+	const visibleFractionYProgressive = (visibleHeightProgressive / totalHeight);
+
+	const signX = ((rect.left + rect.width / 2) < (viewportWidth / 2) ? -1 : 1);
+	const signY = ((rect.top + rect.height / 2) < (viewportHeight / 2) ? -1 : 1);
+
+	return {
+		visibleFractionX,
+		visibleFractionY,
+		visibleFraction: Math.min(visibleFractionX, visibleFractionY),
+		visibleFractionXProgressive,
+		visibleFractionYProgressive,
+		visibleFractionProgressive: Math.min(visibleFractionXProgressive, visibleFractionYProgressive),
+		signX,
+		signY,
+	};
+}
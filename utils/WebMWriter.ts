@@ -0,0 +1,210 @@
+export type WebMVideoCodec = 'V_VP8' | 'V_VP9' | 'V_AV1';
+
+export type WebMWriterOptions = {
+	codec: WebMVideoCodec,
+	width: number,
+	height: number,
+	/** Decoder configuration record, e.g. `VideoDecoderConfig.description` for AV1 */
+	codecPrivate?: Uint8Array,
+};
+
+/**
+ * Minimal WebM muxer for a single video track of encoded frames (e.g. from a WebCodecs `VideoEncoder`)
+ *
+ * Frames are held in memory until `finalize()`. Timestamps are stored with millisecond precision, a new cluster starts at every key frame
+ */
+export class WebMWriter {
+
+	readonly options: WebMWriterOptions;
+
+	protected clusters = new Array<Uint8Array>();
+	protected clusterBlocks = new Array<Uint8Array>();
+	protected clusterTimestamp_ms = 0;
+	protected lastTimestamp_ms = 0;
+	protected lastDuration_ms = 0;
+	protected frameCount = 0;
+
+	constructor(options: WebMWriterOptions) {
+		this.options = options;
+	}
+
+	/**
+	 * @param data encoded frame
+	 * @param timestamp_us presentation time in microseconds (`EncodedVideoChunk.timestamp`)
+	 * @param keyFrame the first frame must be a key frame
+	 */
+	addFrame(data: Uint8Array, timestamp_us: number, keyFrame: boolean, duration_us?: number) {
+		const timestamp_ms = Math.round(timestamp_us / 1000);
+		if (this.frameCount === 0 && !keyFrame) {
+			throw new Error(`WebMWriter: first frame must be a key frame`);
+		}
+
+		if (keyFrame || timestamp_ms - this.clusterTimestamp_ms > 0x7fff) {
+			this.flushCluster();
+			this.clusterTimestamp_ms = timestamp_ms;
+		}
+
+		const relative = timestamp_ms - this.clusterTimestamp_ms;
+		const header = new Uint8Array([
+			0x81, // track number 1 as a vint
+			(relative >> 8) & 0xff,
+			relative & 0xff,
+			keyFrame ? 0x80 : 0x00,
+		]);
+		this.clusterBlocks.push(element(ID.SimpleBlock, header, data));
+
+		this.lastDuration_ms = duration_us != null ? duration_us / 1000 : timestamp_ms - this.lastTimestamp_ms;
+		this.lastTimestamp_ms = timestamp_ms;
+		this.frameCount++;
+	}
+
+	/**
+	 * Completes the file, the writer can't be used after this
+	 */
+	finalize(): Blob {
+		this.flushCluster();
+		const { codec, width, height, codecPrivate } = this.options;
+
+		const header = element(ID.EBML,
+			uintElement(ID.EBMLVersion, 1),
+			uintElement(ID.EBMLReadVersion, 1),
+			uintElement(ID.EBMLMaxIDLength, 4),
+			uintElement(ID.EBMLMaxSizeLength, 8),
+			stringElement(ID.DocType, 'webm'),
+			uintElement(ID.DocTypeVersion, 4),
+			uintElement(ID.DocTypeReadVersion, 2),
+		);
+
+		const info = element(ID.Info,
+			uintElement(ID.TimecodeScale, 1_000_000),
+			stringElement(ID.MuxingApp, 'WebMWriter'),
+			stringElement(ID.WritingApp, 'WebMWriter'),
+			floatElement(ID.Duration, this.lastTimestamp_ms + this.lastDuration_ms),
+		);
+
+		const trackEntry = [
+			uintElement(ID.TrackNumber, 1),
+			uintElement(ID.TrackUID, 1),
+			uintElement(ID.TrackType, 1),
+			stringElement(ID.CodecID, codec),
+			element(ID.Video,
+				uintElement(ID.PixelWidth, width),
+				uintElement(ID.PixelHeight, height),
+			),
+		];
+		if (codecPrivate != null) {
+			trackEntry.push(element(ID.CodecPrivate, codecPrivate));
+		}
+		const tracks = element(ID.Tracks, element(ID.TrackEntry, ...trackEntry));
+
+		const segmentChildren = [info, tracks, ...this.clusters];
+		let segmentSize = 0;
+		for (let child of segmentChildren) {
+			segmentSize += child.byteLength;
+		}
+		const segmentHeader = concat([encodeId(ID.Segment), encodeSize(segmentSize)]);
+
+		this.clusters = [];
+		return new Blob([header, segmentHeader, ...segmentChildren] as BlobPart[], { type: 'video/webm' });
+	}
+
+	protected flushCluster() {
+		if (this.clusterBlocks.length === 0) return;
+		this.clusters.push(element(ID.Cluster, uintElement(ID.Timecode, this.clusterTimestamp_ms), ...this.clusterBlocks));
+		this.clusterBlocks = [];
+	}
+
+}
+
+const ID = {
+	EBML: 0x1a45dfa3,
+	EBMLVersion: 0x4286,
+	EBMLReadVersion: 0x42f7,
+	EBMLMaxIDLength: 0x42f2,
+	EBMLMaxSizeLength: 0x42f3,
+	DocType: 0x4282,
+	DocTypeVersion: 0x4287,
+	DocTypeReadVersion: 0x4285,
+	Segment: 0x18538067,
+	Info: 0x1549a966,
+	TimecodeScale: 0x2ad7b1,
+	MuxingApp: 0x4d80,
+	WritingApp: 0x5741,
+	Duration: 0x4489,
+	Tracks: 0x1654ae6b,
+	TrackEntry: 0xae,
+	TrackNumber: 0xd7,
+	TrackUID: 0x73c5,
+	TrackType: 0x83,
+	CodecID: 0x86,
+	CodecPrivate: 0x63a2,
+	Video: 0xe0,
+	PixelWidth: 0xb0,
+	PixelHeight: 0xba,
+	Cluster: 0x1f43b675,
+	Timecode: 0xe7,
+	SimpleBlock: 0xa3,
+} as const;
+
+function element(id: number, ...children: Uint8Array[]) {
+	let size = 0;
+	for (let child of children) {
+		size += child.byteLength;
+	}
+	return concat([encodeId(id), encodeSize(size), ...children]);
+}
+
+function uintElement(id: number, value: number) {
+	const bytes = new Array<number>();
+	do {
+		bytes.unshift(value % 256);
+		value = Math.floor(value / 256);
+	} while (value > 0);
+	return element(id, new Uint8Array(bytes));
+}
+
+function floatElement(id: number, value: number) {
+	const bytes = new Uint8Array(8);
+	new DataView(bytes.buffer).setFloat64(0, value);
+	return element(id, bytes);
+}
+
+function stringElement(id: number, value: string) {
+	return element(id, new TextEncoder().encode(value));
+}
+
+function encodeId(id: number) {
+	const length = id < 0x100 ? 1 : id < 0x10000 ? 2 : id < 0x1000000 ? 3 : 4;
+	const bytes = new Uint8Array(length);
+	for (let i = 0; i < length; i++) {
+		bytes[i] = (id >>> ((length - 1 - i) * 8)) & 0xff;
+	}
+	return bytes;
+}
+
+/**
+ * Element sizes are always written as 8-byte vints, simpler than picking the shortest encoding and valid for any size
+ */
+function encodeSize(size: number) {
+	const bytes = new Uint8Array(8);
+	bytes[0] = 0x01;
+	for (let i = 7; i > 0; i--) {
+		bytes[i] = size % 256;
+		size = Math.floor(size / 256);
+	}
+	return bytes;
+}
+
+function concat(parts: Uint8Array[]) {
+	let length = 0;
+	for (let part of parts) {
+		length += part.byteLength;
+	}
+	const result = new Uint8Array(length);
+	let offset = 0;
+	for (let part of parts) {
+		result.set(part, offset);
+		offset += part.byteLength;
+	}
+	return result;
+}